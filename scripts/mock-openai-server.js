@@ -0,0 +1,126 @@
+// Minimal OpenAI-compatible mock for trying Run/streaming without a real model.
+//   npm run mock-server            -> http://localhost:8000/v1
+//   PORT=9000 DELAY_MS=80 npm run mock-server
+// Behaviour:
+//   - model "error" answers HTTP 500, useful for checking error display
+//   - if tools are sent and the last message is from the user, it calls the
+//     first tool with placeholder arguments for the required parameters
+//   - with a json_schema response_format it answers a JSON object with
+//     placeholder values for the schema's required properties
+//   - otherwise it echoes the last user message back, word by word when streaming
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT || 8000);
+const DELAY_MS = Number(process.env.DELAY_MS || 40);
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+const placeholder = (schema) => {
+  switch (schema?.type) {
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "object":
+      return placeholderObject(schema);
+    default:
+      return Array.isArray(schema?.enum) ? schema.enum[0] : "example";
+  }
+};
+
+const placeholderObject = (schema) => Object.fromEntries((schema?.required || []).map((k) => [k, placeholder(schema.properties?.[k])]));
+
+const planReply = (body) => {
+  const messages = body.messages || [];
+  const last = messages[messages.length - 1];
+  const tool = body.tools?.[0]?.function;
+  if (tool && last?.role === "user") {
+    const params = tool.parameters || {};
+    const args = placeholderObject(params);
+    return { tool_calls: [{ id: `call_${randomUUID().slice(0, 8)}`, type: "function", function: { name: tool.name, arguments: JSON.stringify(args) } }] };
+  }
+  const schema = body.response_format?.type === "json_schema" ? body.response_format.json_schema?.schema : null;
+  if (schema) return { content: JSON.stringify(placeholderObject(schema)) };
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const text = typeof lastUser?.content === "string" ? lastUser.content : JSON.stringify(lastUser?.content ?? "");
+  return { content: `Mock reply to: ${text || "(empty)"}` };
+};
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const send = (res, status, obj) => {
+  res.writeHead(status, { ...cors, "Content-Type": "application/json" });
+  res.end(JSON.stringify(obj));
+};
+
+const stream = async (res, body, reply) => {
+  res.writeHead(200, { ...cors, "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  let closed = false;
+  res.on("close", () => (closed = true));
+  const id = `chatcmpl-${randomUUID()}`;
+  const chunk = (delta, finish = null) =>
+    res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", model: body.model || "mock", choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`);
+  chunk({ role: "assistant" });
+  let tokens = 0;
+  if (reply.content) {
+    for (const piece of reply.content.match(/\S+\s*/g) || []) {
+      if (closed) return;
+      await sleep(DELAY_MS);
+      chunk({ content: piece });
+      tokens++;
+    }
+  }
+  for (const [index, tc] of (reply.tool_calls || []).entries()) {
+    chunk({ tool_calls: [{ index, id: tc.id, type: "function", function: { name: tc.function.name, arguments: "" } }] });
+    // split the arguments to exercise fragment reassembly
+    for (const piece of tc.function.arguments.match(/.{1,4}/g) || []) {
+      if (closed) return;
+      await sleep(DELAY_MS);
+      chunk({ tool_calls: [{ index, function: { arguments: piece } }] });
+      tokens++;
+    }
+  }
+  chunk({}, reply.tool_calls ? "tool_calls" : "stop");
+  if (body.stream_options?.include_usage) {
+    res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", choices: [], usage: { prompt_tokens: 0, completion_tokens: tokens, total_tokens: tokens } })}\n\n`);
+  }
+  res.end("data: [DONE]\n\n");
+};
+
+http
+  .createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, cors);
+      return res.end();
+    }
+    if (req.method !== "POST" || !req.url.endsWith("/chat/completions")) return send(res, 404, { error: { message: `No route for ${req.method} ${req.url}` } });
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", async () => {
+      let body;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        return send(res, 400, { error: { message: "Body is not valid JSON" } });
+      }
+      if (body.model === "error") return send(res, 500, { error: { message: "Mock failure requested with model \"error\"" } });
+      const reply = planReply(body);
+      if (body.stream) return stream(res, body, reply);
+      send(res, 200, {
+        id: `chatcmpl-${randomUUID()}`,
+        object: "chat.completion",
+        model: body.model || "mock",
+        choices: [{ index: 0, message: { role: "assistant", content: reply.content ?? null, ...(reply.tool_calls ? { tool_calls: reply.tool_calls } : {}) }, finish_reason: reply.tool_calls ? "tool_calls" : "stop" }],
+        usage: { prompt_tokens: 0, completion_tokens: (reply.content || "").split(/\s+/).filter(Boolean).length, total_tokens: 0 },
+      });
+    });
+  })
+  .listen(PORT, () => console.log(`Mock OpenAI server on http://localhost:${PORT}/v1`));
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { v4 as uuidv4 } from "uuid";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -10,224 +10,106 @@ import {
   Bot,
   User,
   FileJson,
-  Wand2,
-  FolderPlus,
   Upload,
-  Trash,
   ArrowUp,
   ArrowDown,
-  Copy,
+  Play,
+  Loader2,
+  X,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  GitBranch,
+  RefreshCw,
+  Undo2,
+  Redo2,
+  FileCode,
+  Archive,
+  ArchiveRestore,
+  Share2,
+  Wand2,
+  AlertTriangle,
+  Check,
+  Columns3,
 } from "lucide-react";
+import {
+  LS_KEY_ACTIVE,
+  LS_KEY_SETTINGS,
+  loadSettings,
+  nowIso,
+  download,
+  DEFAULT_TOOLS,
+  DEFAULT_SYSTEM,
+  withIds,
+  buildExportedMessages,
+} from "./utils";
+import { Collapsible, Textarea, SmallButton, RoleBadge, JSONField, Highlight } from "./ui";
+import { parseTools, validateToolCall } from "./toolSchema";
+import { ToolsPanel } from "./ToolsPanel";
+import { lintConversation, countErrors } from "./lint";
+import { LintPanel, LintBadge } from "./LintPanel";
+import type { LintIssue } from "./lint";
+import { EXPORT_FORMATS, convertConversation } from "./formats";
+import type { ExportFormat } from "./formats";
+import { detectImport } from "./importers";
+import type { ImportResult } from "./importers";
+import { ImportPreview, JSONLImportReport } from "./ImportPreview";
+import { parseJSONL, toJSONL, toFineTuningRecord } from "./jsonl";
+import type { JSONLError } from "./jsonl";
+import { chatCompletion, isAbort, streamChatCompletion } from "./api";
+import type { RunStats } from "./api";
+import { RunPanel } from "./RunPanel";
+import { addAlternative, switchAlternative, removeAlternative, hasBranches, leafPaths, stripBranch } from "./branches";
+import { findVariables, renderMessages, checkBindings } from "./templates";
+import type { Bindings } from "./templates";
+import { VariablesPanel } from "./VariablesPanel";
+import { useUndoHistory } from "./history";
+import type { EditorState, HistoryEntry } from "./history";
+import { addSnapshot, makeSnapshot, shouldAutoSnapshot, snapshotState } from "./snapshots";
+import type { Snapshot } from "./snapshots";
+import { HistoryPanel, DiffModal } from "./HistoryPanel";
+import type { DiffSource } from "./HistoryPanel";
+import { createIndexedDBBackend, createMemoryBackend, loadWorkspace, discardLegacy, toStorageError, isConversationRecord, StorageError } from "./storage";
+import type { Conversation, LoadedWorkspace, StorageBackend, StoredRecord } from "./storage";
+import { StorageErrorScreen, StorageNotice } from "./StorageNotices";
+import { TAB_ID, openSyncChannel, contentFingerprint } from "./sync";
+import type { SyncMessage } from "./sync";
+import { ConflictDialog } from "./ConflictDialog";
+import { useTokenCounter, countConversationTokens, formatTokens } from "./tokens";
+import { TokensPanel, TokenTotal } from "./TokensPanel";
+import { TemplatePreview } from "./TemplatePreview";
+import { Sidebar } from "./Sidebar";
+import { EMPTY_FILTERS, matchesQuery, messageSearchText, snippet } from "./search";
+import type { SearchFilters } from "./search";
+import { makeBackup, backupFileName, isBackup, parseBackup, restoreSettings } from "./backup";
+import type { WorkspaceBackup } from "./backup";
+import { RestoreDialog } from "./RestoreDialog";
+import { decodeShare, readShareFragment, clearShareFragment } from "./share";
+import type { SharedConversation } from "./share";
+import { ShareDialog } from "./ShareDialog";
+import { SharedView } from "./SharedView";
+import { stripMocks, stripScriptMocks, fillToolResponses, insertToolResponses, countUnanswered } from "./mocks";
+import type { FillProblem } from "./mocks";
+import { contentText, formatBytes, isPartList, mediaBytes, messageMediaBytes } from "./contentParts";
+import { PartsEditor } from "./PartsEditor";
+import { extraFields, setExtraFields, getReasoning, setReasoning } from "./messageFields";
+import type { Message, ToolCall } from "./messageFields";
+import { checkFinalAnswer } from "./responseFormat";
+import type { ResponseFormat } from "./responseFormat";
+import { ResponseFormatPanel } from "./ResponseFormatPanel";
+import type { SchemaIssue, Tool } from "./toolSchema";
+import { defaultColumns, withSystemPrompt } from "./compare";
+import type { CompareColumn } from "./compare";
+import { CompareDialog } from "./CompareDialog";
+import { EMPTY_EVALS, addEvalRun, evalPrefix, runEval } from "./evals";
+import type { Evals } from "./evals";
+import { EvalPanel } from "./EvalPanel";
 
-// -------------------- Utilities --------------------
-const LS_PREFIX = "cfb_v2";
-const LS_KEY_LIST = `${LS_PREFIX}:conversations`;
-const LS_KEY_ACTIVE = `${LS_PREFIX}:active`;
-
-const nowIso = () => new Date().toISOString();
-
-const isJSONString = (str: string) => {
-  try {
-    JSON.parse(str);
-    return true;
-  } catch {
-    return false;
-  }
-};
-
-const prettify = (str: string) => {
-  try {
-    const obj = typeof str === "string" ? JSON.parse(str) : str;
-    return JSON.stringify(obj, null, 2);
-  } catch {
-    return str;
-  }
-};
-
-const download = (filename: string, text: string) => {
-  const a = document.createElement("a");
-  a.href = URL.createObjectURL(new Blob([text], { type: "application/json" }));
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-};
-
-const DEFAULT_TOOLS = [
-  {
-    type: "function",
-    function: {
-      name: "get_weather",
-      description: "Get weather by city name",
-      parameters: {
-        type: "object",
-        properties: { location: { type: "string" } },
-        required: ["location"],
-      },
-    },
-  },
-];
-
-const DEFAULT_SYSTEM = { role: "system", content: "You are a helpful assistant." };
-
-const withIds = (msgs: any[]) => msgs.map((m) => (m._id ? m : { ...m, _id: uuidv4() }));
-
-const makeExampleConversation = () => {
-  const toolId = uuidv4();
-  return {
-    id: uuidv4(),
-    name: "Weather example",
-    updatedAt: nowIso(),
-    tools: DEFAULT_TOOLS,
-    messages: withIds([
-      DEFAULT_SYSTEM,
-      { role: "user", content: "What's the weather in Dublin?" },
-      {
-        role: "assistant",
-        content: null,
-        tool_calls: [
-          {
-            id: toolId,
-            type: "function",
-            function: { name: "get_weather", arguments: JSON.stringify({ location: "Dublin" }) },
-          },
-        ],
-      },
-      { role: "tool", tool_call_id: toolId, name: "get_weather", content: "{\"tempC\": 15, \"condition\": \"Cloudy\"}" },
-      { role: "assistant", content: "It's 15°C and cloudy in Dublin." },
-    ]),
-  };
-};
-
-// Build exported messages (also used by tests)
-const buildExportedMessages = (messages: any[]) => {
-  const cleaned = messages.map(({ _id, ...m }) => {
-    const base: any = { role: m.role };
-    if (m.content !== undefined) base.content = m.content;
-    if (m.role === "assistant" && Array.isArray(m.tool_calls) && m.tool_calls.length > 0) {
-      base.tool_calls = m.tool_calls.map((tc: any) => ({
-        id: tc.id || uuidv4(),
-        type: tc.type || "function",
-        function: {
-          name: tc.function?.name || "",
-          arguments:
-            typeof tc.function?.arguments === "string"
-              ? tc.function.arguments
-              : JSON.stringify(tc.function?.arguments ?? {}),
-        },
-      }));
-    }
-    if (m.role === "tool") {
-      base.tool_call_id = m.tool_call_id || "";
-      if (m.name) base.name = m.name;
-    }
-    return base;
-  });
-  return cleaned;
-};
-
-// Auto-resize textarea hook
-function useAutosize(textareaRef: React.RefObject<HTMLTextAreaElement>, value: string | undefined) {
-  useEffect(() => {
-    const el = textareaRef.current;
-    if (!el) return;
-    el.style.height = "auto";
-    el.style.overflow = "hidden";
-    el.style.height = el.scrollHeight + "px";
-  }, [textareaRef, value]);
-}
-
-function Collapsible({ title, children, defaultOpen = true, previewText }: { title: string; children: React.ReactNode; defaultOpen?: boolean; previewText?: string; }) {
-  const [open, setOpen] = useState(defaultOpen);
-  return (
-    <div className="rounded-xl border border-slate-200 bg-white">
-      <button
-        type="button"
-        onClick={() => setOpen((v) => !v)}
-        className="flex w-full items-center justify-between px-3 py-2 text-left"
-      >
-        <span className="text-xs font-medium text-slate-700">{title}</span>
-        <span className="text-xs text-slate-500">{open ? "▲" : "▼"}</span>
-      </button>
-      {open ? (
-        <div className="border-t border-slate-100 p-3">{children}</div>
-      ) : previewText ? (
-        <div
-          className="border-t border-slate-100 p-3 text-xs text-slate-500 truncate cursor-pointer hover:bg-slate-50"
-          role="button"
-          tabIndex={0}
-          onClick={() => setOpen(true)}
-          onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && setOpen(true)}
-          title="Click to expand"
-        >
-          {previewText}
-        </div>
-      ) : null}
-    </div>
-  );
-}
-
-function Textarea({ value, onChange, placeholder, rows = 3 }: { value?: string; onChange: (v: string) => void; placeholder?: string; rows?: number; }) {
-  const ref = useRef<HTMLTextAreaElement | null>(null);
-  useAutosize(ref as React.RefObject<HTMLTextAreaElement>, value);
-  return (
-    <textarea
-      ref={ref}
-      value={value ?? ""}
-      onChange={(e) => onChange(e.target.value)}
-      placeholder={placeholder}
-      rows={rows}
-      className="w-full resize-none rounded-xl border border-slate-300 bg-white p-3 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-black"
-      style={{ overflow: "hidden" }}
-    />
-  );
-}
-
-function SmallButton({ children, onClick, title }: { children: React.ReactNode; onClick?: () => void; title?: string; }) {
-  return (
-    <button
-      type="button"
-      onClick={onClick}
-      title={title}
-      className="inline-flex items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-black"
-    >
-      {children}
-    </button>
-  );
-}
-
-function RoleBadge({ role }: { role: string }) {
-  const map: Record<string, string> = {
-    system: "bg-gray-800 text-white",
-    user: "bg-blue-600 text-white",
-    assistant: "bg-emerald-600 text-white",
-    tool: "bg-amber-600 text-white",
-  };
-  return (
-    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${map[role] || "bg-slate-600 text-white"}`}>{role}</span>
-  );
-}
-
-function JSONField({ label, value, onChange, placeholder }: { label: string; value: string; onChange: (v: string) => void; placeholder?: string; }) {
-  return (
-    <div className="space-y-1">
-      <div className="flex items-center justify-between">
-        <label className="text-xs text-slate-600">{label}</label>
-        <SmallButton onClick={() => onChange(prettify(value))} title="Prettify JSON">
-          <Wand2 size={14} /> Prettify
-        </SmallButton>
-      </div>
-      <Textarea value={value} onChange={onChange} placeholder={placeholder} rows={4} />
-      {!isJSONString(value || "") && <div className="text-xs text-red-600">Invalid JSON</div>}
-    </div>
-  );
-}
-
-function ToolCallsEditor({ toolCalls, setToolCalls }: { toolCalls: any[]; setToolCalls: (v: any[]) => void; }) {
+function ToolCallsEditor({ toolCalls, setToolCalls, tools }: { toolCalls: ToolCall[]; setToolCalls: (v: ToolCall[]) => void; tools: Tool[] | null; }) {
   const addCall = () => {
     setToolCalls([...toolCalls, { id: uuidv4(), type: "function", function: { name: "", arguments: "{}" } }]);
   };
-  const update = (idx: number, patch: any) => {
+  const update = (idx: number, patch: Partial<ToolCall>) => {
     const copy = [...toolCalls];
     copy[idx] = { ...copy[idx], ...patch };
     setToolCalls(copy);
@@ -246,8 +128,11 @@ function ToolCallsEditor({ toolCalls, setToolCalls }: { toolCalls: any[]; setToo
         </div>
         {toolCalls.length === 0 && <p className="text-xs text-slate-500">No tool calls yet. Click Add to create one.</p>}
         <div className="space-y-4">
-          {toolCalls.map((tc: any, idx: number) => (
-            <div key={tc.id} className="rounded-xl border border-slate-200 p-3">
+          {toolCalls.map((tc, idx) => {
+            // tools === null while the tools JSON is invalid: skip schema checks then
+            const issues = tools ? validateToolCall(tc, tools) : [];
+            return (
+            <div key={tc.id} className={`rounded-xl border p-3 ${issues.length ? "border-red-300" : "border-slate-200"}`}>
               <div className="mb-2 flex items-center justify-between">
                 <div className="text-xs text-slate-500">tool_call_id: <code className="font-mono">{tc.id}</code></div>
                 <SmallButton onClick={() => remove(idx)} title="Remove this tool call"><Trash2 size={14}/>Remove</SmallButton>
@@ -256,11 +141,17 @@ function ToolCallsEditor({ toolCalls, setToolCalls }: { toolCalls: any[]; setToo
                 <div>
                   <label className="text-xs text-slate-600">Function name</label>
                   <input
+                    list={`fnnames-${tc.id}`}
                     className="mt-1 w-full rounded-lg border border-slate-300 p-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
                     value={tc.function?.name || ""}
                     onChange={(e) => update(idx, { function: { ...tc.function, name: (e.target as HTMLInputElement).value } })}
                     placeholder="e.g., get_weather"
                   />
+                  <datalist id={`fnnames-${tc.id}`}>
+                    {(tools || []).map((t, k) => t?.function?.name && (
+                      <option key={k} value={t.function.name}>{t.function.description}</option>
+                    ))}
+                  </datalist>
                 </div>
                 <div>
                   <label className="text-xs text-slate-600">Type</label>
@@ -280,8 +171,14 @@ function ToolCallsEditor({ toolCalls, setToolCalls }: { toolCalls: any[]; setToo
                   placeholder='{"location": "Dublin"}'
                 />
               </div>
+              {issues.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-xs text-red-600">
+                  {issues.map((i, k) => <li key={k}>{i.path ? <code className="font-mono">{i.path}</code> : null} {i.message}</li>)}
+                </ul>
+              )}
             </div>
-          ))}
+            );
+          })}
         </div>
       </Collapsible>
     </div>
@@ -289,47 +186,146 @@ function ToolCallsEditor({ toolCalls, setToolCalls }: { toolCalls: any[]; setToo
 }
 
 // Unified motion variants for consistent insert/move animations
-const itemTransition = { type: "spring", stiffness: 500, damping: 40, mass: 0.5 };
+const itemTransition = { type: "spring" as const, stiffness: 500, damping: 40, mass: 0.5 };
 const cardVariants = {
   initial: { opacity: 0, y: 8, scale: 0.98 }, // subtle pop-in
   animate: { opacity: 1, y: 0, scale: 1 },
   exit: { opacity: 0, y: -8, scale: 0.98 },
 };
 
-function MessageCard({ msg, index, onChange, onRemove, onMoveUp, onMoveDown, assistantToolIds }: { msg: any; index: number; onChange: (v: any) => void; onRemove: () => void; onMoveUp: () => void; onMoveDown: () => void; assistantToolIds: string[]; }) {
+const parseObject = (text: string): Record<string, unknown> | null => {
+  try {
+    const v = JSON.parse(text.trim() || "{}");
+    return v && typeof v === "object" && !Array.isArray(v) ? v : null;
+  } catch {
+    return null;
+  }
+};
+
+// Fields the card has no control for (see messageFields.ts), edited as one
+// JSON object. The draft only follows the message when they disagree, so
+// formatting isn't reset while typing.
+function ExtraFieldsEditor({ msg, onChange }: { msg: Message; onChange: (v: Message) => void; }) {
+  const extra = extraFields(msg);
+  const count = Object.keys(extra).length;
+  const key = JSON.stringify(extra);
+  const [draft, setDraft] = useState(() => JSON.stringify(extra, null, 2));
+  useEffect(() => {
+    setDraft((d) => (JSON.stringify(parseObject(d)) === key ? d : JSON.stringify(JSON.parse(key), null, 2)));
+  }, [key]);
+  const edit = (text: string) => {
+    setDraft(text);
+    const parsed = parseObject(text);
+    if (parsed) onChange(setExtraFields(msg, parsed));
+  };
+  const isObject = parseObject(draft) !== null;
+  return (
+    <Collapsible title={`Extra fields (${count})`} defaultOpen={false} previewText={count ? Object.keys(extra).join(", ") : undefined}>
+      <JSONField label="Exported as-is alongside the fields above" value={draft} onChange={edit} placeholder='{"name": "alice"}' />
+      {!isObject && <div className="text-xs text-red-600">Must be a JSON object; changes are not applied until it is.</div>}
+    </Collapsible>
+  );
+}
+
+type BranchActions = { onSwitch: (k: number) => void; onAdd: () => void; onRemove: () => void; onRegenerate: () => void; busy: boolean };
+
+function BranchControls({ msg, actions }: { msg: Message; actions: BranchActions }) {
+  const count = hasBranches(msg) ? msg._branches.length : 1;
+  const current = hasBranches(msg) ? msg._branch : 0;
+  return (
+    <div className="flex items-center gap-1">
+      {count > 1 && (
+        <span className="inline-flex items-center rounded-lg border border-slate-300 text-xs shadow-sm">
+          <button type="button" className="px-1 py-1 hover:bg-slate-50 disabled:opacity-40" disabled={current === 0} onClick={() => actions.onSwitch(current - 1)} title="Previous alternative"><ChevronLeft size={14}/></button>
+          <span className="px-1 tabular-nums">{current + 1}/{count}</span>
+          <button type="button" className="px-1 py-1 hover:bg-slate-50 disabled:opacity-40" disabled={current === count - 1} onClick={() => actions.onSwitch(current + 1)} title="Next alternative"><ChevronRight size={14}/></button>
+          <button type="button" className="border-l border-slate-300 px-1 py-1 hover:bg-slate-50" onClick={actions.onRemove} title="Delete this alternative"><X size={12}/></button>
+        </span>
+      )}
+      <SmallButton onClick={actions.onAdd} title="Add a hand-written alternative (starts a new branch)"><GitBranch size={14}/></SmallButton>
+      <SmallButton onClick={actions.busy ? undefined : actions.onRegenerate} title="Regenerate as a new alternative"><RefreshCw size={14}/></SmallButton>
+    </div>
+  );
+}
+
+function MessageCard({ msg, index, onChange, onRemove, onMoveUp, onMoveDown, assistantToolIds, tools, issues, stats, tokens, searchQuery, branchActions, answerIssues }: { msg: Message; index: number; onChange: (v: Message) => void; onRemove: () => void; onMoveUp: () => void; onMoveDown: () => void; assistantToolIds: string[]; tools: Tool[] | null; issues: LintIssue[]; stats?: RunStats | null; tokens?: number; searchQuery?: string; branchActions?: BranchActions; answerIssues?: SchemaIssue[]; }) {
   const isAssistant = msg.role === "assistant";
   const isTool = msg.role === "tool";
 
   return (
     <motion.div
+      id={`msg-${msg._id}`}
       layout
       initial="initial"
       animate="animate"
       exit="exit"
       variants={cardVariants}
       transition={itemTransition}
-      className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm"
+      className={`rounded-2xl border border-slate-200 bg-white p-4 shadow-sm ${searchQuery ? "ring-2 ring-yellow-300" : ""}`}
     >
       <div className="mb-2 flex items-center justify-between">
         <div className="flex items-center gap-2">
           <RoleBadge role={msg.role} />
           <span className="text-sm font-medium text-slate-700">Message #{index + 1}</span>
+          {tokens !== undefined && <span className="text-[11px] tabular-nums text-slate-400" title="Tokens including chat-template overhead">{formatTokens(tokens)} tok</span>}
+          {messageMediaBytes(msg) > 0 && <span className="text-[11px] tabular-nums text-slate-400" title="Embedded images, audio and files">{formatBytes(messageMediaBytes(msg))}</span>}
+          <LintBadge issues={issues} />
         </div>
         <div className="flex items-center gap-2">
+          {isAssistant && branchActions && <BranchControls msg={msg} actions={branchActions} />}
           <SmallButton onClick={onMoveUp} title="Move up"><ArrowUp size={14}/></SmallButton>
           <SmallButton onClick={onMoveDown} title="Move down"><ArrowDown size={14}/></SmallButton>
           <SmallButton onClick={onRemove} title="Delete"><Trash2 size={14}/>Delete</SmallButton>
         </div>
       </div>
 
-      {msg.role !== "tool" && (
-        <Collapsible title="Content" defaultOpen={true} previewText={(msg.content ?? "").replace(/\n/g, " ")}> 
-          <Textarea
-            rows={msg.role === "system" ? 2 : 3}
-            value={msg.content ?? ""}
-            onChange={(v) => onChange({ ...msg, content: v })}
-            placeholder={msg.role === "system" ? "System instruction" : msg.role === "user" ? "What the user says" : "Assistant reply (optional if using tool calls)"}
-          />
+      {searchQuery && (
+        <div className="mb-2 rounded-lg bg-yellow-50 px-2 py-1 text-xs text-slate-600">
+          <Highlight text={snippet(messageSearchText(msg), searchQuery, 80)} query={searchQuery} />
+        </div>
+      )}
+
+      {msg.role === "user" && (
+        <Collapsible title="Content" defaultOpen={true} previewText={contentText(msg.content).replace(/\n/g, " ")}> 
+          <PartsEditor content={msg.content} onChange={(v) => onChange({ ...msg, content: v })} placeholder="What the user says" />
+        </Collapsible>
+      )}
+
+      {(msg.role === "system" || isAssistant) && (
+        <Collapsible title="Content" defaultOpen={true} previewText={contentText(msg.content).replace(/\n/g, " ")}> 
+          {/* imported part lists are edited part by part, so their images survive */}
+          {isPartList(msg.content) ? (
+            <PartsEditor
+              rows={msg.role === "system" ? 2 : 3}
+              content={msg.content}
+              onChange={(v) => onChange({ ...msg, content: v })}
+              placeholder={msg.role === "system" ? "System instruction" : "Assistant reply"}
+            />
+          ) : (
+            <Textarea
+              rows={msg.role === "system" ? 2 : 3}
+              value={contentText(msg.content)}
+              onChange={(v) => onChange({ ...msg, content: v })}
+              placeholder={msg.role === "system" ? "System instruction" : "Assistant reply (optional if using tool calls)"}
+            />
+          )}
+        </Collapsible>
+      )}
+
+      {answerIssues && (answerIssues.length ? (
+        <div className="mt-2 rounded-lg bg-red-50 p-2 text-xs text-red-700">
+          <div className="mb-1 flex items-center gap-1 font-medium"><AlertTriangle size={14}/> Final answer doesn't match the response format</div>
+          <ul className="space-y-0.5">
+            {answerIssues.map((i, k) => <li key={k}>{i.path ? <code className="font-mono">{i.path}</code> : null} {i.message}</li>)}
+          </ul>
+        </div>
+      ) : (
+        <div className="mt-2 flex items-center gap-1 text-xs text-emerald-700"><Check size={14}/> Final answer matches the response format</div>
+      ))}
+
+      {isAssistant && (
+        <Collapsible title="Reasoning" defaultOpen={false} previewText={getReasoning(msg).replace(/\n/g, " ")}>
+          <Textarea rows={3} value={getReasoning(msg)} onChange={(v) => onChange(setReasoning(msg, v))} placeholder="Thinking before the reply (reasoning_content)" />
         </Collapsible>
       )}
 
@@ -337,11 +333,12 @@ function MessageCard({ msg, index, onChange, onRemove, onMoveUp, onMoveDown, ass
         <ToolCallsEditor
           toolCalls={msg.tool_calls || []}
           setToolCalls={(tc) => onChange({ ...msg, tool_calls: tc })}
+          tools={tools}
         />
       )}
 
       {isTool && (
-        <Collapsible title="Tool response" defaultOpen={true} previewText={(msg.content ?? "").replace(/\n/g, " ")}> 
+        <Collapsible title="Tool response" defaultOpen={true} previewText={contentText(msg.content).replace(/\n/g, " ")}> 
           <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
             <div>
               <label className="text-xs text-slate-600">tool_call_id (must match an assistant tool call id)</label>
@@ -370,15 +367,22 @@ function MessageCard({ msg, index, onChange, onRemove, onMoveUp, onMoveDown, ass
           </div>
           <div className="mt-3">
             <label className="text-xs text-slate-600">Tool response (content)</label>
-            <Textarea
-              rows={3}
-              value={msg.content ?? ""}
-              onChange={(v) => onChange({ ...msg, content: v })}
-              placeholder="Raw tool output as a string"
-            />
+            <PartsEditor content={msg.content} onChange={(v) => onChange({ ...msg, content: v })} placeholder="Raw tool output as a string" />
           </div>
         </Collapsible>
       )}
+
+      <ExtraFieldsEditor msg={msg} onChange={onChange} />
+
+      {stats && (
+        <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-slate-500">
+          {stats.ttftMs !== null && <span>TTFT {Math.round(stats.ttftMs)} ms</span>}
+          <span>total {(stats.latencyMs / 1000).toFixed(2)} s</span>
+          {stats.tokens > 0 && <span>{stats.tokens} tokens</span>}
+          {stats.tokensPerSec !== null && <span>{stats.tokensPerSec.toFixed(1)} tok/s</span>}
+          {stats.stopped && <span className="text-amber-600">stopped</span>}
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -419,7 +423,45 @@ function InsertBar({ onInsert, compact = false }: { onInsert: (role: "system" |
 }
 
 // -------------------- Main App --------------------
+const defaultBackend = createIndexedDBBackend();
+
+// Loads the workspace from storage (migrating the old localStorage data on
+// first run) and offers recovery when that fails.
 export default function App() {
+  const [loaded, setLoaded] = useState<{ backend: StorageBackend; workspace: LoadedWorkspace } | { error: StorageError } | null>(null);
+
+  const load = (backend: StorageBackend, legacy: Pick<Storage, "getItem" | "removeItem"> = localStorage) => {
+    setLoaded(null);
+    loadWorkspace(backend, legacy).then(
+      (workspace) => setLoaded({ backend, workspace }),
+      (e) => setLoaded({ error: toStorageError(e) }),
+    );
+  };
+
+  useEffect(() => load(defaultBackend), []);
+
+  if (!loaded) return <div className="flex min-h-screen items-center justify-center bg-slate-50 text-sm text-slate-500"><Loader2 size={16} className="mr-2 animate-spin"/>Loading conversations…</div>;
+  if ("error" in loaded) {
+    const { error } = loaded;
+    return (
+      <StorageErrorScreen
+        error={error}
+        onRetry={() => load(defaultBackend)}
+        onDownloadRaw={error.raw ? () => download("conversations-raw.json", error.raw!) : undefined}
+        onDiscard={error.kind === "corrupt" ? () => {
+          if (!confirm("Discard the unreadable conversations? This cannot be undone.")) return;
+          discardLegacy(localStorage);
+          load(defaultBackend);
+        } : undefined}
+        // the old data stays in localStorage untouched while nothing can be saved
+        onContinueInMemory={error.kind === "unavailable" ? () => load(createMemoryBackend(), { getItem: (k) => localStorage.getItem(k), removeItem: () => {} }) : undefined}
+      />
+    );
+  }
+  return <Workspace backend={loaded.backend} initial={loaded.workspace} />;
+}
+
+function Workspace({ backend, initial }: { backend: StorageBackend; initial: LoadedWorkspace }) {
   // Prevent layout shift when vertical scrollbar appears
   useEffect(() => {
     const prev = document.body.style.overflowY;
@@ -430,176 +472,684 @@ export default function App() {
   }, []);
 
   // conversations list
-  const [conversations, setConversations] = useState(() => {
-    const raw = localStorage.getItem(LS_KEY_LIST);
-    if (raw) {
-      const parsed = JSON.parse(raw);
-      // ensure IDs exist on messages
-      parsed.forEach((c: any) => (c.messages = withIds(c.messages || [DEFAULT_SYSTEM])));
-      return parsed;
-    }
-    const example = makeExampleConversation();
-    localStorage.setItem(LS_KEY_LIST, JSON.stringify([example]));
-    localStorage.setItem(LS_KEY_ACTIVE, example.id);
-    return [example];
+  const [conversations, setConversations] = useState<Conversation[]>(initial.conversations);
+  const [activeId, setActiveId] = useState(() => {
+    const saved = localStorage.getItem(LS_KEY_ACTIVE);
+    return conversations.some((c) => c.id === saved) ? saved! : conversations[0].id;
   });
-  const [activeId, setActiveId] = useState(() => localStorage.getItem(LS_KEY_ACTIVE) || (conversations[0] && conversations[0].id));
+
+  // persist changed conversations, one record each
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [skipped, setSkipped] = useState<StoredRecord[]>(initial.skipped);
+  const [memoryNotice, setMemoryNotice] = useState(backend.kind === "memory");
+  const [conflict, setConflict] = useState<{ id: string; theirs: Conversation | null } | null>(null);
+  const savedRef = useRef(new Map<string, Conversation>(initial.conversations.map((c) => [c.id, c])));
+  // latest known revision of each record and the tab that wrote it
+  const revRef = useRef(new Map<string, { rev: number; by?: string }>(initial.conversations.map((c) => [c.id, { rev: c.rev || 0, by: c.savedBy }])));
+  const syncRef = useRef<ReturnType<typeof openSyncChannel> | null>(null);
+
+  const toRecord = (c: Conversation) => {
+    const rev = (revRef.current.get(c.id)?.rev || 0) + 1;
+    revRef.current.set(c.id, { rev, by: TAB_ID });
+    return { ...c, rev, savedBy: TAB_ID };
+  };
+  const announce = (type: SyncMessage["type"], id: string) => syncRef.current?.post({ type, id });
+
+  useEffect(() => {
+    const saved = savedRef.current;
+    const next = new Map(conversations.map((c) => [c.id, c]));
+    const fail = (e: unknown) => setStorageError(toStorageError(e));
+    for (const c of conversations) if (saved.get(c.id) !== c) backend.put(toRecord(c)).then(() => announce("put", c.id), fail);
+    for (const id of saved.keys()) {
+      if (!next.has(id)) backend.remove(id).then(() => announce("remove", id), fail);
+    }
+    savedRef.current = next;
+  }, [conversations]);
+
+  const retrySave = (list: Conversation[] = conversations) =>
+    backend.putMany(list.map(toRecord)).then(() => {
+      setStorageError(null);
+      list.forEach((c) => announce("put", c.id));
+    }, (e) => setStorageError(toStorageError(e)));
+
+  // automatic snapshots are the easiest thing to give up when storage is full
+  const dropAutoSnapshots = () => {
+    const next = conversations.map((c) => (c.snapshots?.some((s) => s.auto) ? { ...c, snapshots: c.snapshots.filter((s) => !s.auto) } : c));
+    setConversations(next);
+    retrySave(next);
+  };
+
+  const downloadBackup = () => download(backupFileName(), JSON.stringify(makeBackup(conversations, settings), null, 2));
 
   // current conversation derived
-  const activeIndex = conversations.findIndex((c: any) => c.id === activeId);
+  const activeIndex = conversations.findIndex((c) => c.id === activeId);
   const active = conversations[activeIndex];
 
   const [name, setName] = useState(active?.name || "Untitled conversation");
-  const [messages, setMessages] = useState<any[]>(active?.messages || withIds([DEFAULT_SYSTEM]));
+  const [messages, setMessages] = useState<Message[]>(active?.messages || withIds([DEFAULT_SYSTEM]));
   const [tools, setTools] = useState(JSON.stringify(active?.tools || DEFAULT_TOOLS, null, 2));
+  const [variables, setVariables] = useState<Bindings>(active?.variables || {});
+  const [responseFormat, setResponseFormat] = useState<ResponseFormat | null>(active?.responseFormat ?? null);
+
+  const parsedTools = useMemo(() => parseTools(tools).tools, [tools]);
+  // what models and exports see: tool definitions without their mocks
+  const modelTools = useMemo(() => parsedTools && stripMocks(parsedTools), [parsedTools]);
+
+  // workspace settings
+  const [settings, setSettings] = useState(loadSettings);
+  useEffect(() => {
+    localStorage.setItem(LS_KEY_SETTINGS, JSON.stringify(settings));
+  }, [settings]);
+  const exportOptions = { reasoning: settings.includeReasoning !== false };
+
+  const [jsonlReport, setJsonlReport] = useState<{ fileName: string; imported: number; errors: JSONLError[] } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runStats, setRunStats] = useState<{ messageId: string; stats: RunStats } | null>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
+  const activeIdRef = useRef(activeId);
+  activeIdRef.current = activeId;
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ImportResult } | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: WorkspaceBackup; skipped: number } | null>(null);
+
+  const lintIssues = useMemo(() => lintConversation(messages), [messages]);
+  const answerCheck = useMemo(() => checkFinalAnswer(messages, responseFormat), [messages, responseFormat]);
+  const mediaTotal = useMemo(() => mediaBytes(messages), [messages]);
+
+  const tokenCounter = useTokenCounter(settings.tokenizer);
+  const tokenBreakdown = useMemo(() => {
+    const { count, countMessage } = tokenCounter;
+    return count && countMessage ? countConversationTokens(count, messages, modelTools, messages.map(countMessage)) : null;
+  }, [tokenCounter, messages, modelTools]);
+
+  const jumpToMessage = (idx: number) => {
+    const el = document.getElementById(`msg-${messages[idx]?._id}`);
+    el?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
 
   // keep assistant tool ids
   const assistantToolIds = useMemo(() => {
     const ids: string[] = [];
-    for (const m of messages as any[]) {
-      if (m.role === "assistant" && Array.isArray(m.tool_calls)) ids.push(...m.tool_calls.map((t: any) => t.id));
+    for (const m of messages) {
+      if (m.role === "assistant" && Array.isArray(m.tool_calls)) ids.push(...m.tool_calls.map((t) => t.id));
     }
     return ids;
   }, [messages]);
 
   // autosave on change (debounced a bit)
   useEffect(() => {
+    // paused until a conflict with another tab is resolved
+    if (conflict?.id === activeId) return;
     const t = setTimeout(() => {
       const cleanedMsgs = messages.map(({ _id, ...rest }) => rest); // strip internal ids for storage/export
-      const updated = { id: activeId, name, updatedAt: nowIso(), tools: isJSONString(tools) ? JSON.parse(tools) : [], messages: cleanedMsgs };
-      const next = [...conversations];
-      const i = next.findIndex((c: any) => c.id === activeId);
-      if (i >= 0) next[i] = updated; else next.push(updated);
-      next.sort((a: any, b: any) => new Date(b.updatedAt).valueOf() - new Date(a.updatedAt).valueOf());
-      setConversations(next);
-      localStorage.setItem(LS_KEY_LIST, JSON.stringify(next));
+      // functional update so conversations added meanwhile (imports, batch) aren't lost
+      setConversations((prev) => {
+        const next = [...prev];
+        const i = next.findIndex((c) => c.id === activeId);
+        // keep fields the editor doesn't hold, and the last saved tools while the editor holds unparseable JSON
+        const updated = { ...(i >= 0 ? next[i] : {}), id: activeId, name, updatedAt: nowIso(), tools: parsedTools ?? (i >= 0 ? next[i].tools : DEFAULT_TOOLS), variables, responseFormat, messages: cleanedMsgs };
+        // nothing to save (e.g. just switched to it, or loaded another tab's version)
+        if (i >= 0 && contentFingerprint(next[i]) === contentFingerprint(updated)) return prev;
+        if (i >= 0) next[i] = updated; else next.push(updated);
+        next.sort((a, b) => new Date(b.updatedAt).valueOf() - new Date(a.updatedAt).valueOf());
+        return next;
+      });
       localStorage.setItem(LS_KEY_ACTIVE, String(activeId));
     }, 300);
     return () => clearTimeout(t);
-  }, [activeId, name, tools, messages]);
+  }, [activeId, name, tools, variables, responseFormat, messages, conflict]);
 
   // when switching active, load its state into editors
   useEffect(() => {
     if (!active) return;
+    // an undo/redo that targets another conversation switches to it first
+    const pending = pendingRestoreRef.current;
+    pendingRestoreRef.current = null;
+    if (pending && pending.convId === activeId) return applyEditorState(pending.state);
     setName(active.name || "Untitled conversation");
     setMessages(withIds(active.messages || [DEFAULT_SYSTEM]));
     setTools(JSON.stringify(active.tools || DEFAULT_TOOLS, null, 2));
+    setVariables(active.variables || {});
+    setResponseFormat(active.responseFormat ?? null);
   }, [activeId]);
 
-  // DEV TESTS -----------------------------------------------------------
+  // undo/redo -----------------------------------------------------------
+  const history = useUndoHistory();
+  const pendingRestoreRef = useRef<{ convId: string; state: EditorState } | null>(null);
+
+  const applyEditorState = (state: EditorState) => {
+    setName(state.name);
+    setMessages(state.messages);
+    setTools(state.tools);
+    setVariables(state.variables);
+    setResponseFormat(state.responseFormat ?? null);
+  };
+
+  // editor state of any conversation: live for the active one, stored otherwise
+  const editorStateOf = (convId: string): EditorState | null => {
+    if (convId === activeId) return { name, messages, tools, variables, responseFormat };
+    const c = conversations.find((x) => x.id === convId);
+    if (!c) return null;
+    return { name: c.name, messages: withIds(c.messages || []), tools: JSON.stringify(c.tools || [], null, 2), variables: c.variables || {}, responseFormat: c.responseFormat ?? null };
+  };
+
+  // call before a change; mergeKey groups rapid edits (typing) into one step
+  const recordEdit = (label: string, mergeKey?: string) =>
+    history.record({ kind: "edit", convId: activeId, label, state: { name, messages, tools, variables, responseFormat }, mergeKey, at: Date.now() });
+
+  const insertConversations = (items: { conversation: Conversation; index: number }[]) => {
+    setConversations((prev) => {
+      const next = [...prev];
+      for (const { conversation, index } of [...items].sort((a, b) => a.index - b.index)) next.splice(Math.min(index, next.length), 0, conversation);
+      return next;
+    });
+    setActiveId(items[0].conversation.id);
+  };
+
+  const removeConversations = (ids: string[]) => {
+    const next = conversations.filter((c) => !ids.includes(c.id));
+    setSelectedIds((prev) => prev.filter((x) => !ids.includes(x)));
+    setConversations(next);
+    if (ids.includes(activeId) && next.length) setActiveId(next[0].id);
+  };
+
+  const applyHistoryEntry = (entry: HistoryEntry) => {
+    if (entry.kind === "delete") insertConversations(entry.items);
+    else if (entry.kind === "restore") removeConversations(entry.items.map((i) => i.conversation.id));
+    else if (entry.convId === activeId) applyEditorState(entry.state);
+    else if (conversations.some((c) => c.id === entry.convId)) {
+      pendingRestoreRef.current = { convId: entry.convId, state: entry.state };
+      setActiveId(entry.convId);
+    }
+  };
+
+  const inverseOf = (entry: HistoryEntry): HistoryEntry | null => {
+    if (entry.kind === "delete") return { kind: "restore", label: entry.label, items: entry.items };
+    if (entry.kind === "restore") return { kind: "delete", label: entry.label, items: entry.items };
+    const state = editorStateOf(entry.convId);
+    return state ? { ...entry, state, mergeKey: undefined } : null;
+  };
+
+  const undo = () => {
+    if (running) return;
+    const entry = history.undo(inverseOf);
+    if (entry) applyHistoryEntry(entry);
+  };
+
+  const redo = () => {
+    if (running) return;
+    const entry = history.redo(inverseOf);
+    if (entry) applyHistoryEntry(entry);
+  };
+
+  // snapshots ------------------------------------------------------------
+  const [templatePreviewOpen, setTemplatePreviewOpen] = useState(false);
+  const [diffPick, setDiffPick] = useState<{ left: string; right: string } | null>(null);
+  const snapshots: Snapshot[] = active?.snapshots || [];
+
+  const updateSnapshots = (convId: string, fn: (list: Snapshot[]) => Snapshot[]) =>
+    setConversations((prev) => {
+      const next = prev.map((c) => (c.id === convId ? { ...c, snapshots: fn(c.snapshots || []) } : c));
+      return next;
+    });
+
+  const createSnapshot = (snapName: string) => updateSnapshots(activeId, (list) => addSnapshot(list, makeSnapshot({ name, messages, tools, variables, responseFormat }, snapName)));
+
+  const restoreSnapshot = (snap: Snapshot) => {
+    if (running) return;
+    recordEdit(`Restore “${snap.name}”`);
+    applyEditorState(snapshotState(snap));
+  };
+
+  // checked every minute; a snapshot is only taken when something changed
+  const autoSnapshotRef = useRef(() => {});
+  autoSnapshotRef.current = () => {
+    const state = { name, messages, tools, variables, responseFormat };
+    if (active && !running && shouldAutoSnapshot(snapshots, state)) {
+      updateSnapshots(activeId, (list) => addSnapshot(list, makeSnapshot(state, `Auto ${new Date().toLocaleString()}`, true)));
+    }
+  };
   useEffect(() => {
-    // Only run once, safe in production too (just console.assert)
-    const tests = () => {
-      console.groupCollapsed("Conversation Builder self-tests");
-      // isJSONString
-      console.assert(isJSONString("{}") === true, "isJSONString should be true for {}");
-      console.assert(isJSONString("{") === false, "isJSONString should be false for malformed JSON");
-      // uuid available
-      console.assert(typeof uuidv4 === "function", "uuidv4 should be a function");
-      const gen = uuidv4();
-      console.assert(typeof gen === "string" && gen.length >= 30, "uuidv4() should return a string");
-      // preview newline replacement
-      const prev = ("hello\nworld").replace(/\n/g, " ");
-      console.assert(prev === "hello world", "preview should replace newlines with spaces");
-      // export payload shape
-      const toolId = "t123";
-      const testMsgs = [
-        { role: "system", content: "sys" },
-        { role: "user", content: "u" },
-        { role: "assistant", content: null, tool_calls: [{ id: toolId, type: "function", function: { name: "f", arguments: { a: 1 } } }] },
-        { role: "tool", tool_call_id: toolId, name: "f", content: "{\"ok\":true}" },
-      ];
-      const out = buildExportedMessages(testMsgs);
-      console.assert(Array.isArray(out), "export: messages array");
-      const aMsg = out.find((m: any) => m.role === "assistant");
-      console.assert(aMsg.tool_calls[0].function.arguments === "{\"a\":1}", "export: function.arguments is stringified");
-      const tMsg = out.find((m: any) => m.role === "tool");
-      console.assert(!!tMsg.tool_call_id, "export: tool_call_id present");
-      // messages length preserved
-      console.assert(out.length === testMsgs.length, "export: preserves message count");
-      console.groupEnd();
-    };
-    tests();
+    const t = setInterval(() => autoSnapshotRef.current(), 60_000);
+    return () => clearInterval(t);
+  }, []);
+
+  // only built while the compare view is open
+  const diffSources = useMemo((): DiffSource[] => !diffPick ? [] : [
+    { key: "current", group: "This conversation", label: "Current editor", state: { name, messages, tools, variables, responseFormat } },
+    ...snapshots.slice().reverse().map((s) => ({ key: `snap:${s.id}`, group: "This conversation", label: `${s.auto ? "[auto] " : ""}${s.name}`, state: s.state })),
+    ...conversations.filter((c) => c.id !== activeId).map((c) => ({ key: `conv:${c.id}`, group: "Other conversations", label: c.name, state: editorStateOf(c.id)! })),
+  ], [diffPick, name, messages, tools, variables, responseFormat, snapshots, conversations]);
+
+  const openDiff = (left?: string) => {
+    const fallback = snapshots.length ? `snap:${snapshots[snapshots.length - 1].id}` : "current";
+    setDiffPick({ left: left || fallback, right: "current" });
+  };
+
+  // other tabs --------------------------------------------------------------
+  const replaceConversation = (conv: Conversation) => {
+    savedRef.current.set(conv.id, conv); // already stored by the other tab
+    setConversations((prev) => (prev.some((c) => c.id === conv.id) ? prev.map((c) => (c.id === conv.id ? conv : c)) : [conv, ...prev]));
+  };
+
+  const loadIntoEditor = (conv: Conversation) =>
+    applyEditorState({ name: conv.name, messages: conv.messages, tools: JSON.stringify(conv.tools || [], null, 2), variables: conv.variables || {}, responseFormat: conv.responseFormat ?? null });
+
+  const applyRemoteRef = useRef((_msg: SyncMessage, _record: unknown) => {});
+  applyRemoteRef.current = (msg, record) => {
+    const id = msg.id;
+    const local = conversations.find((c) => c.id === id);
+    if (msg.type === "remove" || !record) {
+      if (!local) return;
+      revRef.current.delete(id);
+      savedRef.current.delete(id);
+      if (id === activeId) setConflict({ id, theirs: null });
+      else {
+        setConversations((prev) => prev.filter((c) => c.id !== id));
+        setSelectedIds((prev) => prev.filter((x) => x !== id));
+      }
+      return;
+    }
+    if (!isConversationRecord(record)) return;
+    const known = revRef.current.get(id);
+    const rev = record.rev || 0;
+    // older than what we have, or a version we've already seen
+    if (known && (rev < known.rev || (rev === known.rev && record.savedBy === known.by))) return;
+    revRef.current.set(id, { rev, by: record.savedBy });
+    const incoming = { ...record, messages: withIds(record.messages) };
+    if (id !== activeId || !local) return replaceConversation(incoming);
+    const editor = { name, messages, tools: parsedTools ?? local.tools, variables, responseFormat };
+    if (contentFingerprint(editor) === contentFingerprint(incoming)) return replaceConversation({ ...incoming, messages: local.messages });
+    // both tabs wrote the same revision, or this tab has edits the other never saw
+    const dirty = (known && rev === known.rev) || contentFingerprint(editor) !== contentFingerprint(local);
+    if (dirty) return setConflict({ id, theirs: incoming });
+    replaceConversation(incoming);
+    loadIntoEditor(incoming);
+  };
+
+  useEffect(() => {
+    // an in-memory workspace isn't shared with other tabs
+    if (backend.kind === "memory") return;
+    const channel = openSyncChannel((msg) => {
+      const read = msg.type === "put" ? backend.get(msg.id) : Promise.resolve(null);
+      read.then((record) => applyRemoteRef.current(msg, record), (e) => setStorageError(toStorageError(e)));
+    });
+    syncRef.current = channel;
+    return () => channel.close();
   }, []);
 
+  // conflict resolution: keeping ours writes a newer revision over theirs
+  const keepMine = () => {
+    if (!conflict) return;
+    setConflict(null);
+    setConversations((prev) => prev.map((c) => (c.id === conflict.id ? { ...c, updatedAt: nowIso() } : c)));
+  };
+
+  const takeTheirs = () => {
+    if (!conflict) return;
+    setConflict(null);
+    if (!conflict.theirs) return deleteConversation(conflict.id);
+    recordEdit("Use version from other tab");
+    replaceConversation(conflict.theirs);
+    loadIntoEditor(conflict.theirs);
+  };
+
+  const saveMineAsCopy = () => {
+    if (!conflict) return;
+    const copy = { ...active, id: uuidv4(), name: `${name} (my version)`, updatedAt: nowIso(), tools: parsedTools ?? active.tools, variables, responseFormat, messages: messages.map(({ _id, ...rest }) => rest), snapshots: [] };
+    setConflict(null);
+    if (conflict.theirs) {
+      replaceConversation(conflict.theirs);
+      setConversations((prev) => [copy, ...prev]);
+      loadIntoEditor(conflict.theirs);
+    } else {
+      setConversations((prev) => [copy, ...prev.filter((c) => c.id !== conflict.id)]);
+      setActiveId(copy.id);
+    }
+  };
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z (and Ctrl+Y) replace the inputs' native undo
+  // in fields the history records (inside data-history="on"); settings,
+  // search and dialog inputs keep their own undo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target instanceof Element ? e.target : null;
+      if (el?.closest("input, textarea, select, [contenteditable]") && el.closest("[data-history]")?.getAttribute("data-history") !== "on") return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
   // message operations
   const addMessage = (role: "system" | "user" | "assistant" | "tool") => {
-    const base: any = { role, _id: uuidv4() };
+    recordEdit(`Add ${role} message`);
+    const base: Message = { role, _id: uuidv4() };
     if (role === "assistant") base.tool_calls = [];
     if (role !== "tool") base.content = "";
     if (role === "tool") base.tool_call_id = assistantToolIds[assistantToolIds.length - 1] || "";
-    setMessages((prev: any[]) => [...prev, base]);
+    setMessages((prev) => [...prev, base]);
   };
 
   const insertMessageAt = (idx: number, role: "system" | "user" | "assistant" | "tool") => {
-    const base: any = { role, _id: uuidv4() };
+    recordEdit(`Insert ${role} message`);
+    const base: Message = { role, _id: uuidv4() };
     if (role === "assistant") base.tool_calls = [];
     if (role !== "tool") base.content = "";
     if (role === "tool") base.tool_call_id = assistantToolIds[assistantToolIds.length - 1] || "";
-    setMessages((prev: any[]) => {
+    setMessages((prev) => {
       const copy = [...prev];
       copy.splice(idx, 0, base);
       return copy;
     });
   };
 
-  const updateMessage = (idx: number, next: any) => {
-    setMessages((prev: any[]) => prev.map((m, i) => (i === idx ? { ...next, _id: m._id } : m)) as any);
+  const updateMessage = (idx: number, next: Message) => {
+    recordEdit(`Edit message #${idx + 1}`, `msg:${messages[idx]?._id}`);
+    setMessages((prev) => prev.map((m, i) => (i === idx ? { ...next, _id: m._id } : m)));
   };
 
   const removeMessage = (idx: number) => {
-    setMessages((prev: any[]) => prev.filter((_, i) => i !== idx) as any);
+    recordEdit(`Delete message #${idx + 1}`);
+    setMessages((prev) => prev.filter((_, i) => i !== idx));
   };
 
   const moveMessage = (idx: number, dir: number) => {
-    setMessages((prev: any[]) => {
+    if (idx + dir < 0 || idx + dir >= messages.length) return;
+    recordEdit(`Move message #${idx + 1}`);
+    setMessages((prev) => {
       const j = idx + dir;
       if (j < 0 || j >= prev.length) return prev;
       const copy = [...prev];
       const [m] = copy.splice(idx, 1);
       copy.splice(j, 0, m);
-      return copy as any;
+      return copy;
     });
   };
 
+  // Send the conversation to the configured endpoint and append the reply.
+  // With regenerateAt, the prefix before that assistant message is sent and
+  // the reply is added to it as a new alternative.
+  const runConversation = async (regenerateAt?: number) => {
+    const startedFor = activeId;
+    const regenerating = regenerateAt !== undefined;
+    recordEdit(regenerating ? "Regenerate" : "Run");
+    const replyId = regenerating ? messages[regenerateAt]._id! : uuidv4();
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setRunError(null);
+    setRunStats(null);
+    setRunning(true);
+    let inserted = false;
+    const insert = (message: Message) => {
+      inserted = true;
+      setMessages((prev) => {
+        if (!regenerating) return [...prev, { ...message, _id: replyId }];
+        const i = prev.findIndex((m) => m._id === replyId);
+        return i < 0 ? prev : addAlternative(prev, i, message);
+      });
+    };
+    const replace = (message: Message) =>
+      setMessages((prev) => prev.map((m) => (m._id === replyId ? { ...m, ...message } : m)));
+    // drop the placeholder if nothing arrived before a failure or stop
+    const dropIfEmpty = () =>
+      inserted &&
+      setMessages((prev) => {
+        const i = prev.findIndex((m) => m._id === replyId);
+        if (i < 0 || prev[i].content || prev[i].tool_calls?.length || getReasoning(prev[i])) return prev;
+        return regenerating ? removeAlternative(prev, i) : prev.filter((_, j) => j !== i);
+      });
+    try {
+      // earlier reasoning is not sent back; several servers reject it as input
+      const exported = buildExportedMessages(renderMessages(regenerating ? messages.slice(0, regenerateAt) : messages, variables), { reasoning: false });
+      if (settings.endpoint.stream) {
+        insert({ role: "assistant", content: "", tool_calls: [] });
+        const { message, stats } = await streamChatCompletion(settings.endpoint, exported, modelTools ?? [], {
+          signal: controller.signal,
+          responseFormat,
+          onUpdate: (partial) => {
+            if (activeIdRef.current !== startedFor) controller.abort();
+            else replace(partial);
+          },
+        });
+        if (activeIdRef.current !== startedFor) throw new Error("Conversation changed while streaming; the reply was stopped");
+        if (stats.stopped && !message.content && !message.tool_calls?.length) {
+          dropIfEmpty();
+        } else {
+          replace(message);
+          setRunStats({ messageId: replyId, stats });
+        }
+      } else {
+        const { message, stats } = await chatCompletion(settings.endpoint, exported, modelTools ?? [], { signal: controller.signal, responseFormat });
+        if (activeIdRef.current !== startedFor) throw new Error("Conversation changed while running; the reply was discarded");
+        insert(message);
+        setRunStats({ messageId: replyId, stats });
+      }
+    } catch (e) {
+      dropIfEmpty();
+      if (!isAbort(e)) setRunError((e as Error).message || String(e));
+    } finally {
+      runAbortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const stopRun = () => runAbortRef.current?.abort();
+
+  // tool messages for unanswered calls, computed by each tool's mock
+  const [filling, setFilling] = useState(false);
+  const [fillProblems, setFillProblems] = useState<FillProblem[]>([]);
+  const unansweredCalls = useMemo(() => countUnanswered(messages), [messages]);
+
+  // scripts run asynchronously: the responses go into the editor as it is
+  // when they are ready (this ref sees the latest render)
+  const applyFillRef = useRef((_responses: Message[]) => {});
+  applyFillRef.current = (responses) => {
+    if (!insertToolResponses(messages, responses).filled) return;
+    recordEdit("Fill tool responses");
+    setMessages((prev) => insertToolResponses(prev, responses).messages);
+  };
+
+  const fillResponses = async () => {
+    if (running || filling || !parsedTools) return;
+    const convId = activeId;
+    setFilling(true);
+    try {
+      const result = await fillToolResponses(messages, parsedTools);
+      // drop the result if the user switched away
+      if (activeIdRef.current !== convId) return;
+      setFillProblems(result.problems);
+      applyFillRef.current(result.responses);
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const variableUses = useMemo(() => findVariables(messages), [messages]);
+  const bindingCheck = checkBindings(variableUses, variables);
+
+  // batch mode: one rendered conversation per bindings row
+  const batchCreate = (rows: Bindings[]) => {
+    const created = rows.map((row, i) => ({
+      id: uuidv4(),
+      name: `${name} #${i + 1}`,
+      updatedAt: nowIso(),
+      tools: parsedTools ?? [],
+      variables: {},
+      responseFormat,
+      messages: withIds(renderMessages(messages, { ...variables, ...row }).map(stripBranch)),
+    }));
+    const next = [...created, ...conversations];
+    setConversations(next);
+  };
+
+  const batchDownload = (rows: Bindings[]) => {
+    if (!passesLintGate(countErrors(lintIssues))) return;
+    const records = rows.map((row) =>
+      toFineTuningRecord(buildExportedMessages(renderMessages(messages, { ...variables, ...row }), exportOptions), modelTools ?? []),
+    );
+    download(`${name || "conversation"}.batch.jsonl`, toJSONL(records));
+  };
+
+  const branchPaths = useMemo(() => (messages.some(hasBranches) ? leafPaths(messages) : []), [messages]);
+
+  // every leaf path of the branch tree as one JSONL line in the chosen format
+  const exportAllBranches = () => {
+    const errors = branchPaths.reduce((n, path) => n + countErrors(lintConversation(path)), 0);
+    if (!passesLintGate(errors, "the branches")) return;
+    const format = settings.exportFormat as ExportFormat;
+    const warnings = new Set<string>();
+    const records = branchPaths.map((path) => {
+      const exported = buildExportedMessages(renderMessages(path, variables), exportOptions);
+      if (format === "openai-messages") return toFineTuningRecord(exported, modelTools ?? []);
+      const result = convertConversation(format, exported, modelTools ?? [], responseFormat);
+      result.warnings.forEach((w) => warnings.add(w));
+      return result.payload;
+    });
+    if (warnings.size && !confirm(`This export loses information:\n- ${[...warnings].join("\n- ")}\n\nExport anyway?`)) return;
+    download(`${name || "conversation"}.branches.jsonl`, toJSONL(records));
+  };
+
+  // every export path asks here first: lint errors block the export when the
+  // Lint panel says so, otherwise the user confirms
+  const passesLintGate = (errors: number, where = "the conversation") => {
+    if (!errors) return true;
+    const found = `${errors} lint error${errors > 1 ? "s" : ""} in ${where}`;
+    if (settings.blockExportOnLintErrors) {
+      alert(`Export blocked: ${found}. See the Lint panel.`);
+      return false;
+    }
+    return confirm(`Found ${found}. Export anyway?`);
+  };
+
   const exportJSON = () => {
-    const msgs = buildExportedMessages(messages);
-    const fname = `${name || "conversation"}.json`;
-    download(fname, JSON.stringify(msgs, null, 2));
+    if (!passesLintGate(countErrors(lintIssues))) return;
+    const format = settings.exportFormat as ExportFormat;
+    const { payload, warnings } = convertConversation(format, buildExportedMessages(renderMessages(messages, variables), exportOptions), modelTools ?? [], responseFormat);
+    if (bindingCheck.missing.length) warnings.unshift(`Unbound variables stay as placeholders: ${bindingCheck.missing.join(", ")}`);
+    if (!parsedTools && format !== "openai-messages") warnings.unshift("Tools JSON is invalid; exported without tools");
+    if (warnings.length && !confirm(`This export loses information:\n- ${warnings.join("\n- ")}\n\nExport anyway?`)) return;
+    const fname = `${name || "conversation"}${format === "openai-messages" ? "" : `.${format}`}.json`;
+    download(fname, JSON.stringify(payload, null, 2));
   };
 
   const importJSON = async (file: File) => {
+    if (/\.jsonl$/i.test(file.name)) return importJSONL(file);
     const text = await file.text();
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(text);
-      let importedMessages: any[] = [];
-      if (Array.isArray(parsed)) {
-        // New format: direct array of messages
-        importedMessages = parsed;
-      } else {
-        // Old format with wrapper object
-        importedMessages = Array.isArray(parsed.messages) ? parsed.messages : [DEFAULT_SYSTEM];
-      }
-
+      parsed = JSON.parse(text);
+    } catch {
+      alert("Invalid JSON file");
+      return;
+    }
+    if (isBackup(parsed)) return openRestore(file.name, parsed);
+    try {
+      const result = detectImport(parsed);
       // Sanitize filename for conversation name
       const sanitizedName = file.name.replace(/\.json$/i, "").replace(/[^a-zA-Z0-9\s\-_]/g, "").trim() || "Imported Conversation";
+      setPendingImport({ fileName: sanitizedName, result });
+    } catch (e) {
+      alert(`Could not import ${file.name}: ${(e as Error).message}`);
+    }
+  };
 
-      // Create new conversation
-      const newConv = {
-        id: uuidv4(),
-        name: sanitizedName,
-        updatedAt: nowIso(),
-        tools: DEFAULT_TOOLS,
-        messages: withIds(importedMessages)
-      };
+  const confirmImport = (importName: string) => {
+    if (!pendingImport) return;
+    const { result } = pendingImport;
+    const newConv: Conversation = {
+      id: uuidv4(),
+      name: importName,
+      updatedAt: nowIso(),
+      tools: result.tools ?? [],
+      responseFormat: result.responseFormat ?? null,
+      messages: withIds(result.messages.length ? result.messages : [DEFAULT_SYSTEM]),
+    };
+    const next = [newConv, ...conversations];
+    setConversations(next);
+    setActiveId(newConv.id);
+    setPendingImport(null);
+  };
 
-      const next = [newConv, ...conversations];
-      setConversations(next);
-      localStorage.setItem(LS_KEY_LIST, JSON.stringify(next));
-      setActiveId(newConv.id);
+  // workspace backups --------------------------------------------------------
+  const openRestore = (fileName: string, parsed: unknown) => {
+    try {
+      setPendingRestore({ fileName, ...parseBackup(parsed) });
+    } catch (e) {
+      alert(`Could not restore ${fileName}: ${(e as Error).message}`);
+    }
+  };
+
+  const restoreBackupFile = async (file: File) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
     } catch {
       alert("Invalid JSON file");
+      return;
+    }
+    openRestore(file.name, parsed);
+  };
+
+  const applyRestore = (next: Conversation[], withSettings: boolean) => {
+    if (!pendingRestore || !next.length) return;
+    if (withSettings) setSettings((s) => restoreSettings(s, pendingRestore.backup));
+    setConversations(next);
+    setSelectedIds((prev) => prev.filter((id) => next.some((c) => c.id === id)));
+    const current = next.find((c) => c.id === activeId);
+    if (!current) setActiveId(next[0].id);
+    else if (current !== active) {
+      recordEdit("Restore from backup");
+      loadIntoEditor(current);
+    }
+    setPendingRestore(null);
+  };
+
+  const importJSONL = async (file: File) => {
+    const { records, errors } = parseJSONL(await file.text());
+    const base = file.name.replace(/\.jsonl$/i, "").replace(/[^a-zA-Z0-9\s\-_]/g, "").trim() || "Imported";
+    const created: Conversation[] = [];
+    for (const { line, value } of records) {
+      try {
+        const result = detectImport(value);
+        created.push({
+          id: uuidv4(),
+          name: `${base} #${line}`,
+          updatedAt: nowIso(),
+          tools: result.tools ?? [],
+          responseFormat: result.responseFormat ?? null,
+          messages: withIds(result.messages.length ? result.messages : [DEFAULT_SYSTEM]),
+        });
+      } catch (e) {
+        errors.push({ line, message: (e as Error).message });
+      }
+    }
+    errors.sort((a, b) => a.line - b.line);
+    if (created.length) {
+      const next = [...created, ...conversations];
+      setConversations(next);
+      setActiveId(created[0].id);
     }
+    setJsonlReport({ fileName: file.name, imported: created.length, errors });
+  };
+
+  const exportSelectedJSONL = () => {
+    const chosen = conversations.filter((c) => selectedIds.includes(c.id));
+    if (!chosen.length) return;
+    const errors = chosen.reduce((n, c) => n + countErrors(lintConversation(c.messages || [])), 0);
+    if (!passesLintGate(errors, chosen.length > 1 ? "the selected conversations" : "the selected conversation")) return;
+    const records = chosen.map((c) => toFineTuningRecord(buildExportedMessages(renderMessages(c.messages || [], c.variables || {}), exportOptions), stripMocks(c.tools || [])));
+    download(`conversations-${chosen.length}.jsonl`, toJSONL(records));
   };
 
   // conversations sidebar actions
@@ -607,26 +1157,143 @@ export default function App() {
     const c = { id: uuidv4(), name: "Untitled conversation", updatedAt: nowIso(), tools: DEFAULT_TOOLS, messages: withIds([DEFAULT_SYSTEM]) };
     const next = [c, ...conversations];
     setConversations(next);
-    localStorage.setItem(LS_KEY_LIST, JSON.stringify(next));
     setActiveId(c.id);
   };
 
   const duplicateConversation = (id: string) => {
-    const src = (conversations as any[]).find((c) => c.id === id);
+    const src = conversations.find((c) => c.id === id);
     if (!src) return;
     const copy = { ...src, id: uuidv4(), name: src.name + " (copy)", updatedAt: nowIso() };
     const next = [copy, ...conversations];
     setConversations(next);
-    localStorage.setItem(LS_KEY_LIST, JSON.stringify(next));
     setActiveId(copy.id);
   };
 
-  const deleteConversation = (id: string) => {
-    const next = (conversations as any[]).filter((c) => c.id !== id);
-    setConversations(next);
-    localStorage.setItem(LS_KEY_LIST, JSON.stringify(next));
-    if (activeId === id && next.length) setActiveId(next[0].id);
+  const deleteConversations = (ids: string[]) => {
+    const items = ids
+      .map((id) => {
+        const index = conversations.findIndex((c) => c.id === id);
+        const stored = conversations[index];
+        // the active conversation may have edits the autosave hasn't written yet
+        const conversation = id === activeId && stored
+          ? { ...stored, name, tools: parsedTools ?? stored.tools, variables, responseFormat, messages: messages.map(({ _id, ...rest }) => rest) }
+          : stored;
+        return { conversation, index };
+      })
+      .filter((i) => i.conversation);
+    if (!items.length) return;
+    history.record({ kind: "delete", label: items.length === 1 ? `Delete "${items[0].conversation.name}"` : `Delete ${items.length} conversations`, items });
+    removeConversations(items.map((i) => i.conversation.id));
+  };
+
+  const deleteConversation = (id: string) => deleteConversations([id]);
+
+  // tags, folders and other fields the editor doesn't hold
+  const updateConversations = (ids: string[], fn: (c: Conversation) => Conversation) =>
+    setConversations((prev) => prev.map((c) => (ids.includes(c.id) ? fn(c) : c)));
+
+  // evals -------------------------------------------------------------------
+  const evals: Evals = active?.evals || EMPTY_EVALS;
+  const updateEvals = (convId: string, fn: (e: Evals) => Evals) => updateConversations([convId], (c) => ({ ...c, evals: fn(c.evals || EMPTY_EVALS) }));
+  const [evalProgress, setEvalProgress] = useState<{ done: number; total: number } | null>(null);
+  const evalAbortRef = useRef<AbortController | null>(null);
+
+  // the result is stored on the conversation the run started from, even if
+  // the user has switched to another one meanwhile
+  const runEvals = async (runs: number) => {
+    if (evalProgress) return;
+    const convId = activeId;
+    const controller = new AbortController();
+    evalAbortRef.current = controller;
+    setEvalProgress({ done: 0, total: runs });
+    try {
+      const run = await runEval({
+        endpoint: settings.endpoint,
+        messages: buildExportedMessages(renderMessages(evalPrefix(messages), variables), { reasoning: false }),
+        tools: modelTools ?? [],
+        responseFormat,
+        assertions: evals.assertions,
+        runs,
+        signal: controller.signal,
+        onProgress: (done) => setEvalProgress({ done, total: runs }),
+      });
+      updateEvals(convId, (e) => addEvalRun(e, run));
+    } finally {
+      evalAbortRef.current = null;
+      setEvalProgress(null);
+    }
+  };
+
+  // comparison -----------------------------------------------------------------
+  const [compareOpen, setCompareOpen] = useState(false);
+  const setCompareColumns = (compareColumns: CompareColumn[]) => setSettings((s) => ({ ...s, compareColumns }));
+
+  const openCompare = () => {
+    if (!settings.compareColumns?.length) setCompareColumns(defaultColumns());
+    setCompareOpen(true);
+  };
+
+  const promoteReply = (message: Message) => {
+    recordEdit("Use compared reply");
+    setMessages((prev) => [...prev, { ...message, _id: uuidv4() }]);
+    setCompareOpen(false);
+  };
+
+  // share links ---------------------------------------------------------------
+  const [shareTarget, setShareTarget] = useState<SharedConversation | null>(null);
+  const [sharedLink, setSharedLink] = useState<{ conversation: SharedConversation | null; error: string | null } | null>(null);
+
+  const openShare = () => {
+    if (!passesLintGate(countErrors(lintIssues))) return;
+    setShareTarget({ name, tools: parsedTools ?? active?.tools ?? [], variables, responseFormat, messages });
+  };
+
+  // a link can be opened on load or pasted into the address bar of an open tab
+  useEffect(() => {
+    const read = () => {
+      const encoded = readShareFragment(location.hash);
+      if (!encoded) return setSharedLink(null);
+      decodeShare(encoded).then(
+        (conversation) => setSharedLink({ conversation, error: null }),
+        (e) => setSharedLink({ conversation: null, error: e.message }),
+      );
+    };
+    read();
+    window.addEventListener("hashchange", read);
+    return () => window.removeEventListener("hashchange", read);
+  }, []);
+
+  const closeSharedLink = () => {
+    clearShareFragment();
+    setSharedLink(null);
+  };
+
+  const saveSharedLink = () => {
+    const shared = sharedLink?.conversation;
+    if (!shared) return;
+    const c = { id: uuidv4(), name: shared.name, updatedAt: nowIso(), tools: stripScriptMocks(shared.tools), variables: shared.variables, responseFormat: shared.responseFormat ?? null, messages: withIds(shared.messages.length ? shared.messages : [DEFAULT_SYSTEM]) };
+    setConversations((prev) => [c, ...prev]);
+    setActiveId(c.id);
+    closeSharedLink();
+  };
+
+  // open a conversation from search results, scrolling to the matching message
+  const [pendingJump, setPendingJump] = useState<{ id: string; index: number } | null>(null);
+  const openConversation = (id: string, messageIndex?: number) => {
+    setActiveId(id);
+    setPendingJump(messageIndex === undefined ? null : { id, index: messageIndex });
   };
+  useEffect(() => {
+    if (!pendingJump || pendingJump.id !== activeId) return;
+    // wait for the switch effect to load the messages
+    const t = setTimeout(() => {
+      jumpToMessage(pendingJump.index);
+      setPendingJump(null);
+    }, 50);
+    return () => clearTimeout(t);
+  }, [pendingJump, activeId, messages]);
+
+  if (sharedLink) return <SharedView conversation={sharedLink.conversation} error={sharedLink.error} onSave={saveSharedLink} onClose={closeSharedLink} />;
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
@@ -636,68 +1303,175 @@ export default function App() {
           <div className="flex items-center gap-2">
             <MessageSquare />
             <input
+              data-history="on"
               className="w-full md:w-[28rem] rounded-2xl border border-slate-300 bg-white px-4 py-2 text-base font-semibold shadow-sm focus:outline-none focus:ring-2 focus:ring-black"
               value={name}
-              onChange={(e) => setName(e.target.value)}
+              onChange={(e) => {
+                recordEdit("Rename", "name");
+                setName(e.target.value);
+              }}
             />
           </div>
           <div className="flex items-center gap-2">
-            <SmallButton onClick={exportJSON} title="Export JSON"><Download size={14}/>Export</SmallButton>
+            {mediaTotal > 0 && <span className="text-xs tabular-nums text-slate-500" title="Embedded images, audio and files in this conversation">{formatBytes(mediaTotal)} media</span>}
+            <TokenTotal breakdown={tokenBreakdown} limit={settings.contextLimit} error={tokenCounter.error} />
+            <select
+              className="rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm focus:outline-none focus:ring-2 focus:ring-black"
+              value={settings.exportFormat}
+              onChange={(e) => setSettings((s) => ({ ...s, exportFormat: e.target.value as ExportFormat }))}
+              title="Export format"
+            >
+              {EXPORT_FORMATS.map((f) => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-slate-600" title="Include assistant reasoning (reasoning_content) in exports. It is never sent back when running.">
+              <input type="checkbox" checked={exportOptions.reasoning} onChange={(e) => setSettings((s) => ({ ...s, includeReasoning: e.target.checked }))} />
+              Reasoning
+            </label>
+            <SmallButton onClick={undo} title={history.canUndo ? `Undo ${history.undoLabel} (Ctrl/Cmd+Z)` : "Nothing to undo"}><Undo2 size={14}/></SmallButton>
+            <SmallButton onClick={redo} title={history.canRedo ? `Redo ${history.redoLabel} (Ctrl/Cmd+Shift+Z)` : "Nothing to redo"}><Redo2 size={14}/></SmallButton>
+            {running ? (
+              <button
+                type="button"
+                onClick={stopRun}
+                title="Stop generating (keeps the partial reply)"
+                className="inline-flex items-center gap-1 rounded-lg bg-red-600 px-2 py-1 text-xs text-white shadow-sm hover:bg-red-500"
+              >
+                <Loader2 size={14} className="animate-spin"/><Square size={12}/>Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => runConversation()}
+                title={`Send to ${settings.endpoint.baseUrl}`}
+                className="inline-flex items-center gap-1 rounded-lg bg-emerald-600 px-2 py-1 text-xs text-white shadow-sm hover:bg-emerald-500"
+              >
+                <Play size={14}/>Run
+              </button>
+            )}
+            <SmallButton onClick={() => setTemplatePreviewOpen(true)} title="Preview the prompt string produced by a model's chat template"><FileCode size={14}/>Template</SmallButton>
+            <SmallButton onClick={openCompare} title="Send the conversation to several models or settings and compare the replies"><Columns3 size={14}/>Compare</SmallButton>
+            <SmallButton onClick={openShare} title="Copy a link that contains this conversation"><Share2 size={14}/>Share</SmallButton>
+            <SmallButton onClick={exportJSON} title="Export JSON (selected branch path)"><Download size={14}/>Export</SmallButton>
+            {branchPaths.length > 1 && (
+              <SmallButton onClick={exportAllBranches} title="Export every branch path as a separate conversation (JSONL)"><GitBranch size={14}/>All {branchPaths.length} paths</SmallButton>
+            )}
+            <SmallButton onClick={downloadBackup} title="Download every conversation with tools, tags, folders, snapshots and settings as one file"><Archive size={14}/>Backup</SmallButton>
+            <label className="inline-flex cursor-pointer items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50" title="Restore a workspace backup (merge or replace)">
+              <ArchiveRestore size={14}/> Restore
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.[0]) restoreBackupFile(e.target.files[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
             <label className="inline-flex cursor-pointer items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50">
               <Upload size={14}/> Import
-              <input type="file" accept="application/json" className="hidden" onChange={(e) => e.target.files?.[0] && importJSON(e.target.files[0])} />
+              <input
+                type="file"
+                accept="application/json,.json,.jsonl"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.[0]) importJSON(e.target.files[0]);
+                  e.target.value = ""; // allow re-importing the same file
+                }}
+              />
             </label>
           </div>
         </div>
       </header>
 
+      {memoryNotice && (
+        <StorageNotice
+          message="Browser storage is unavailable. Changes are kept only until this tab closes."
+          actions={[{ label: "Download backup", onClick: downloadBackup }]}
+          onDismiss={() => setMemoryNotice(false)}
+        />
+      )}
+      {storageError && (
+        <StorageNotice
+          message={storageError.kind === "quota" ? "Browser storage is full. Recent changes are not saved." : `Saving failed: ${storageError.message}`}
+          actions={[
+            ...(storageError.kind === "quota" ? [{ label: "Remove auto snapshots", title: "Delete automatic snapshots in every conversation and retry", onClick: dropAutoSnapshots }] : []),
+            { label: "Download backup", onClick: downloadBackup },
+            { label: "Retry", onClick: () => retrySave() },
+          ]}
+          onDismiss={() => setStorageError(null)}
+        />
+      )}
+      {skipped.length > 0 && (
+        <StorageNotice
+          message={`${skipped.length} saved conversation${skipped.length === 1 ? "" : "s"} could not be read and ${skipped.length === 1 ? "was" : "were"} skipped.`}
+          actions={[
+            { label: "Download", onClick: () => download("unreadable-conversations.json", JSON.stringify(skipped, null, 2)) },
+            {
+              label: "Delete",
+              onClick: () => {
+                if (!confirm("Delete the unreadable conversations from storage?")) return;
+                Promise.all(skipped.map((c) => backend.remove(c.id))).then(() => setSkipped([]), (e) => setStorageError(toStorageError(e)));
+              },
+            },
+          ]}
+          onDismiss={() => setSkipped([])}
+        />
+      )}
+
       <main className="grid w-full grid-cols-1 gap-3 px-3 py-3 md:grid-cols-12">
         {/* Left sidebar: conversations */}
-        <aside className="md:col-span-3 rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
-          <div className="mb-2 flex items-center justify-between">
-            <div className="text-sm font-semibold">Conversations</div>
-            <div className="flex items-center gap-2">
-              <SmallButton onClick={newConversation} title="New conversation"><FolderPlus size={14}/>New</SmallButton>
-            </div>
-          </div>
-          <div className="space-y-1">
-            {(conversations as any[])
-              .slice()
-              .sort((a, b) => new Date(b.updatedAt).valueOf() - new Date(a.updatedAt).valueOf())
-              .map((c) => (
-                <div
-                  key={c.id}
-                  className={`group relative flex items-center justify-between rounded-xl border px-3 py-2 text-sm shadow-sm ${
-                    c.id === activeId ? "border-emerald-500 bg-emerald-50" : "border-slate-200 bg-white"
-                  }`}
-                >
-                  <button onClick={() => setActiveId(c.id)} className="truncate text-left">
-                    <div className="truncate font-medium">{c.name}</div>
-                    <div className="text-[11px] text-slate-500">{new Date(c.updatedAt).toLocaleString()}</div>
-                  </button>
-                  <div className="ml-2 hidden items-center gap-1 group-hover:flex">
-                    <SmallButton onClick={() => duplicateConversation(c.id)} title="Duplicate"><Copy size={14}/></SmallButton>
-                    <SmallButton onClick={() => deleteConversation(c.id)} title="Delete"><Trash size={14}/></SmallButton>
-                  </div>
-                </div>
-              ))}
-          </div>
-        </aside>
+        <Sidebar
+          conversations={conversations}
+          activeId={activeId}
+          selectedIds={selectedIds}
+          setSelectedIds={setSelectedIds}
+          filters={searchFilters}
+          setFilters={setSearchFilters}
+          onOpen={openConversation}
+          onNew={newConversation}
+          onDuplicate={duplicateConversation}
+          onDelete={deleteConversations}
+          onUpdate={updateConversations}
+          onExportSelected={exportSelectedJSONL}
+        />
 
         {/* Editor column */}
-        <section className="md:col-span-9">
+        <section className="md:col-span-6" data-history="on">
           {/* Top insert bar */}
           <div>
             <InsertBar compact onInsert={(role) => insertMessageAt(0, role)} />
           </div>
 
           <AnimatePresence initial={false} mode="sync">
-            {(messages as any[]).map((msg, idx) => (
+            {messages.map((msg, idx) => (
               <div key={msg._id}>
                 <MessageCard
                   msg={msg}
                   index={idx}
                   assistantToolIds={assistantToolIds}
+                  tools={parsedTools}
+                  issues={lintIssues.filter((i) => i.index === idx)}
+                  stats={runStats && runStats.messageId === msg._id ? runStats.stats : null}
+                  tokens={tokenBreakdown?.perMessage[idx]}
+                  searchQuery={searchFilters.query.trim() && matchesQuery(msg, searchFilters) ? searchFilters.query : undefined}
+                  branchActions={{
+                    onSwitch: (k) => {
+                      recordEdit("Switch alternative");
+                      setMessages((prev) => switchAlternative(prev, idx, k));
+                    },
+                    onAdd: () => {
+                      recordEdit("Add alternative");
+                      setMessages((prev) => addAlternative(prev, idx, { role: "assistant", content: "", tool_calls: [] }));
+                    },
+                    onRemove: () => {
+                      recordEdit("Delete alternative");
+                      setMessages((prev) => removeAlternative(prev, idx));
+                    },
+                    onRegenerate: () => runConversation(idx),
+                    busy: running,
+                  }}
+                  answerIssues={answerCheck?.index === idx ? answerCheck.issues : undefined}
                   onChange={(next) => updateMessage(idx, next)}
                   onRemove={() => removeMessage(idx)}
                   onMoveUp={() => moveMessage(idx, -1)}
@@ -709,6 +1483,25 @@ export default function App() {
             ))}
           </AnimatePresence>
 
+          {fillProblems.length > 0 && (
+            <div className="mt-3 flex items-start justify-between gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <div>
+                <div className="font-medium">{fillProblems.length} tool call{fillProblems.length === 1 ? " was" : "s were"} not answered</div>
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {fillProblems.map((p) => <li key={p.callId}><code className="font-mono">{p.name || "(no name)"}</code> <span className="text-amber-600">{p.callId}</span>: {p.message}</li>)}
+                </ul>
+              </div>
+              <button type="button" onClick={() => setFillProblems([])} title="Dismiss" className="shrink-0"><X size={14}/></button>
+            </div>
+          )}
+
+          {runError && (
+            <div className="mt-3 flex items-start justify-between gap-2 rounded-2xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <span className="break-all">{runError}</span>
+              <button type="button" onClick={() => setRunError(null)} title="Dismiss" className="shrink-0"><X size={14}/></button>
+            </div>
+          )}
+
           {/* Centered add buttons below last message */}
           <div className="mt-4 flex w-full items-center justify-center">
             <div className="inline-flex items-center gap-2">
@@ -716,10 +1509,156 @@ export default function App() {
               <button onClick={() => addMessage("user")} className="inline-flex items-center gap-2 rounded-2xl bg-blue-600 px-3 py-2 text-sm text-white shadow hover:bg-blue-500"><User size={16}/>Add User</button>
               <button onClick={() => addMessage("assistant")} className="inline-flex items-center gap-2 rounded-2xl bg-emerald-600 px-3 py-2 text-sm text-white shadow hover:bg-emerald-500"><Bot size={16}/>Add Assistant</button>
               <button onClick={() => addMessage("tool")} className="inline-flex items-center gap-2 rounded-2xl bg-amber-600 px-3 py-2 text-sm text-white shadow hover:bg-amber-500"><Wrench size={16}/>Add Tool Response</button>
+              {unansweredCalls > 0 && (
+                <button
+                  onClick={fillResponses}
+                  disabled={filling || running}
+                  title="Insert a tool message for every unanswered tool call, computed by the tool's mock"
+                  className="inline-flex items-center gap-2 rounded-2xl border border-amber-600 px-3 py-2 text-sm text-amber-700 shadow hover:bg-amber-50 disabled:opacity-50"
+                >
+                  {filling ? <Loader2 size={16} className="animate-spin"/> : <Wand2 size={16}/>}Fill tool responses ({unansweredCalls})
+                </button>
+              )}
             </div>
           </div>
         </section>
+
+        {/* Right column: conversation-level settings */}
+        <aside className="md:col-span-3 space-y-3">
+          <div className="space-y-3" data-history="on">
+            <ToolsPanel
+              value={tools}
+              onChange={(v) => {
+                recordEdit("Edit tools", "tools");
+                setTools(v);
+              }}
+            />
+            <ResponseFormatPanel
+              value={responseFormat}
+              onChange={(v) => {
+                recordEdit("Edit response format", "responseFormat");
+                setResponseFormat(v);
+              }}
+            />
+            <VariablesPanel
+              uses={variableUses}
+              bindings={variables}
+              setBindings={(b) => {
+                recordEdit("Edit variables", "variables");
+                setVariables(b);
+              }}
+              onBatchCreate={batchCreate}
+              onBatchDownload={batchDownload}
+            />
+          </div>
+          <HistoryPanel
+            snapshots={snapshots}
+            onCreate={createSnapshot}
+            onRestore={restoreSnapshot}
+            onDelete={(snap) => updateSnapshots(activeId, (list) => list.filter((s) => s.id !== snap.id))}
+            onCompare={openDiff}
+          />
+          <TokensPanel
+            breakdown={tokenBreakdown}
+            error={tokenCounter.error}
+            tokenizer={settings.tokenizer}
+            setTokenizer={(tokenizer) => setSettings((s) => ({ ...s, tokenizer }))}
+            limit={settings.contextLimit}
+            setLimit={(contextLimit) => setSettings((s) => ({ ...s, contextLimit }))}
+          />
+          <RunPanel endpoint={settings.endpoint} setEndpoint={(endpoint) => setSettings((s) => ({ ...s, endpoint }))} />
+          <LintPanel
+            issues={lintIssues}
+            messages={messages}
+            onJump={jumpToMessage}
+            blockExport={settings.blockExportOnLintErrors}
+            setBlockExport={(v) => setSettings((s) => ({ ...s, blockExportOnLintErrors: v }))}
+          />
+          <EvalPanel
+            evals={evals}
+            setAssertions={(assertions) => updateEvals(activeId, (e) => ({ ...e, assertions }))}
+            clearHistory={() => confirm("Delete the recorded eval runs of this conversation?") && updateEvals(activeId, (e) => ({ ...e, history: [] }))}
+            reference={messages[messages.length - 1]?.role === "assistant" ? messages[messages.length - 1] : null}
+            responseFormat={responseFormat}
+            progress={evalProgress}
+            onRun={runEvals}
+            onStop={() => evalAbortRef.current?.abort()}
+          />
+        </aside>
       </main>
+
+      {jsonlReport && (
+        <JSONLImportReport
+          fileName={jsonlReport.fileName}
+          imported={jsonlReport.imported}
+          errors={jsonlReport.errors}
+          onClose={() => setJsonlReport(null)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          name={name}
+          mine={messages}
+          theirs={conflict.theirs}
+          onKeepMine={keepMine}
+          onUseTheirs={takeTheirs}
+          onSaveCopy={saveMineAsCopy}
+        />
+      )}
+
+      {templatePreviewOpen && (
+        <TemplatePreview
+          messages={buildExportedMessages(renderMessages(messages, variables), exportOptions)}
+          tools={modelTools}
+          templateId={settings.chatTemplate}
+          setTemplateId={(chatTemplate) => setSettings((s) => ({ ...s, chatTemplate }))}
+          customTemplate={settings.customChatTemplate}
+          setCustomTemplate={(customChatTemplate) => setSettings((s) => ({ ...s, customChatTemplate }))}
+          fileName={name || "conversation"}
+          onClose={() => setTemplatePreviewOpen(false)}
+        />
+      )}
+
+      {diffPick && (
+        <DiffModal sources={diffSources} initialLeft={diffPick.left} initialRight={diffPick.right} onClose={() => setDiffPick(null)} />
+      )}
+
+      {compareOpen && (
+        <CompareDialog
+          columns={settings.compareColumns || []}
+          setColumns={setCompareColumns}
+          base={settings.endpoint}
+          prepare={(prompt) => buildExportedMessages(renderMessages(withSystemPrompt(messages, prompt), variables), { reasoning: false })}
+          tools={modelTools ?? []}
+          responseFormat={responseFormat}
+          onPromote={promoteReply}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+
+      {shareTarget && <ShareDialog conversation={shareTarget} onClose={() => setShareTarget(null)} />}
+
+      {pendingRestore && (
+        <RestoreDialog
+          fileName={pendingRestore.fileName}
+          backup={pendingRestore.backup}
+          skipped={pendingRestore.skipped}
+          current={conversations}
+          onBackupFirst={downloadBackup}
+          onConfirm={applyRestore}
+          onCancel={() => setPendingRestore(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreview
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 }
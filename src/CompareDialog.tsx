@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowDownToLine, Copy, Loader2, Play, Plus, Square, Trash2 } from "lucide-react";
+import { Modal, SmallButton, Textarea } from "./ui";
+import { chatCompletion, isAbort } from "./api";
+import type { EndpointSettings } from "./api";
+import { columnEndpoint, columnTitle, copyColumn, newColumn } from "./compare";
+import type { ColumnResult, CompareColumn } from "./compare";
+import { contentText } from "./contentParts";
+import { getReasoning } from "./messageFields";
+import type { Message } from "./messageFields";
+import type { ResponseFormat } from "./responseFormat";
+import type { Tool } from "./toolSchema";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const parseOptional = (text: string, parse: (t: string) => number) => {
+  const n = parse(text);
+  return text.trim() === "" || !Number.isFinite(n) ? null : n;
+};
+
+function ColumnSettings({ column, base, onChange }: { column: CompareColumn; base: EndpointSettings; onChange: (c: CompareColumn) => void; }) {
+  const set = (patch: Partial<CompareColumn>) => onChange({ ...column, ...patch });
+  return (
+    <div className="space-y-1">
+      <input className={inputClass} value={column.label} onChange={(e) => set({ label: e.target.value })} placeholder="Label (optional)" />
+      <input className={inputClass} value={column.baseUrl} onChange={(e) => set({ baseUrl: e.target.value })} placeholder={base.baseUrl || "Base URL"} title="Base URL; empty uses the Endpoint panel's" />
+      <input className={inputClass} value={column.model} onChange={(e) => set({ model: e.target.value })} placeholder={base.model || "Model"} title="Model; empty uses the Endpoint panel's" />
+      <div className="grid grid-cols-2 gap-1">
+        <input type="number" step="0.1" min="0" max="2" className={inputClass} value={column.temperature ?? ""} onChange={(e) => set({ temperature: parseOptional(e.target.value, parseFloat) })} placeholder={`temp ${base.temperature}`} title="Temperature" />
+        <input type="number" min="0" className={inputClass} value={column.maxTokens ?? ""} onChange={(e) => set({ maxTokens: parseOptional(e.target.value, (t) => parseInt(t, 10)) })} placeholder={`max ${base.maxTokens}`} title="Max tokens" />
+      </div>
+      <input type="password" autoComplete="off" className={inputClass} value={column.apiKey} onChange={(e) => set({ apiKey: e.target.value })} placeholder={base.apiKey ? "API key (Endpoint's)" : "API key (optional)"} />
+      <Textarea rows={2} value={column.systemPrompt} onChange={(systemPrompt) => set({ systemPrompt })} placeholder="System prompt variant (empty = the conversation's)" />
+    </div>
+  );
+}
+
+function ColumnReply({ result, onPromote }: { result?: ColumnResult; onPromote: () => void }) {
+  if (!result) return <p className="text-xs text-slate-400">Not run yet.</p>;
+  if (result.status === "running") return <p className="flex items-center gap-1 text-xs text-slate-500"><Loader2 size={12} className="animate-spin"/> Waiting for the reply…</p>;
+  if (result.status === "error") return <div className="break-words rounded-lg bg-red-50 p-2 text-xs text-red-700">{result.error}</div>;
+  const { message, latencyMs, usage } = result;
+  const text = contentText(message.content);
+  const reasoning = getReasoning(message);
+  return (
+    <div className="space-y-1 text-xs">
+      {reasoning && (
+        <details className="rounded bg-slate-50 p-1">
+          <summary className="cursor-pointer text-slate-500">Reasoning</summary>
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono text-[11px] text-slate-600">{reasoning}</pre>
+        </details>
+      )}
+      {text ? <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words font-sans text-slate-800">{text}</pre> : !message.tool_calls?.length && <p className="text-slate-400">(empty reply)</p>}
+      {message.refusal && <div className="rounded bg-amber-50 p-1 text-amber-800">Refusal: {message.refusal}</div>}
+      {(message.tool_calls || []).map((tc, k) => (
+        <div key={k} className="break-all rounded bg-slate-50 p-1 font-mono text-[11px] text-slate-700">→ {tc.function?.name || "?"}({tc.function?.arguments ?? ""})</div>
+      ))}
+      <div className="flex items-center justify-between gap-2 border-t border-slate-100 pt-1 text-[11px] text-slate-500">
+        <span title={usage ? "Prompt / completion / total tokens" : undefined}>
+          {(latencyMs / 1000).toFixed(2)} s
+          {usage && ` · ${usage.prompt_tokens ?? "?"} / ${usage.completion_tokens ?? "?"} / ${usage.total_tokens ?? "?"} tok`}
+        </span>
+        <SmallButton onClick={onPromote} title="Append this reply to the conversation as the next assistant message"><ArrowDownToLine size={14}/>Use</SmallButton>
+      </div>
+    </div>
+  );
+}
+
+// Sends the same conversation to every column at once and shows the replies
+// side by side. `prepare` turns a column's system prompt into the messages to
+// send; replies are kept until the dialog closes.
+export function CompareDialog({ columns, setColumns, base, prepare, tools, responseFormat, onPromote, onClose }: { columns: CompareColumn[]; setColumns: (c: CompareColumn[]) => void; base: EndpointSettings; prepare: (systemPrompt: string) => Message[]; tools: Tool[]; responseFormat: ResponseFormat | null; onPromote: (message: Message) => void; onClose: () => void; }) {
+  const [results, setResults] = useState<Record<string, ColumnResult>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach((c) => c.abort());
+  }, []);
+
+  const setResult = (id: string, result: ColumnResult) => setResults((r) => ({ ...r, [id]: result }));
+
+  const runColumn = async (column: CompareColumn) => {
+    controllers.current.get(column.id)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(column.id, controller);
+    setResult(column.id, { status: "running" });
+    // a rerun replaces this request: only the latest one reports
+    const current = () => controllers.current.get(column.id) === controller;
+    try {
+      const { message, latencyMs, usage } = await chatCompletion(columnEndpoint(column, base), prepare(column.systemPrompt), tools, { signal: controller.signal, responseFormat });
+      if (current()) setResult(column.id, { status: "done", message, latencyMs, usage });
+    } catch (e) {
+      if (current()) setResult(column.id, { status: "error", error: isAbort(e) ? "Stopped" : (e as Error)?.message || String(e) });
+    } finally {
+      if (current()) controllers.current.delete(column.id);
+    }
+  };
+
+  const runAll = () => Promise.allSettled(columns.map(runColumn));
+  const stopAll = () => controllers.current.forEach((c) => c.abort());
+  const anyRunning = columns.some((c) => results[c.id]?.status === "running");
+
+  const update = (i: number, next: CompareColumn) => setColumns(columns.map((c, k) => (k === i ? next : c)));
+  const remove = (i: number) => {
+    controllers.current.get(columns[i].id)?.abort();
+    setColumns(columns.filter((_, k) => k !== i));
+  };
+  const duplicate = (i: number) => setColumns([...columns.slice(0, i + 1), copyColumn(columns[i]), ...columns.slice(i + 1)]);
+
+  return (
+    <Modal
+      title="Compare replies"
+      wide
+      onClose={onClose}
+      footer={
+        <>
+          <SmallButton onClick={() => setColumns([...columns, newColumn()])} title="Add a column"><Plus size={14}/>Column</SmallButton>
+          {anyRunning ? (
+            <SmallButton onClick={stopAll} title="Stop every running request"><Square size={12}/>Stop</SmallButton>
+          ) : (
+            <SmallButton onClick={columns.length ? runAll : undefined} title="Send the conversation to every column at once"><Play size={14}/>Run all</SmallButton>
+          )}
+          <SmallButton onClick={onClose}>Close</SmallButton>
+        </>
+      }
+    >
+      <p className="mb-2 text-xs text-slate-500">
+        Each column sends the current conversation and tools with its own settings; empty fields use the Endpoint panel. Replies are not streamed.
+      </p>
+      {columns.length === 0 && <p className="text-xs text-slate-500">No columns. Add one to start comparing.</p>}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {columns.map((column, i) => {
+          const result = results[column.id];
+          return (
+            <div key={column.id} className="flex w-72 shrink-0 flex-col gap-2 rounded-xl border border-slate-200 p-2">
+              <div className="flex items-center justify-between gap-1">
+                <span className="truncate text-xs font-medium text-slate-700" title={columnTitle(column, base)}>{columnTitle(column, base)}</span>
+                <div className="flex shrink-0 items-center gap-1">
+                  <button type="button" onClick={() => runColumn(column)} title="Run this column" className="text-slate-500 hover:text-emerald-600"><Play size={14}/></button>
+                  <button type="button" onClick={() => duplicate(i)} title="Duplicate column" className="text-slate-500 hover:text-black"><Copy size={14}/></button>
+                  <button type="button" onClick={() => remove(i)} title="Remove column" className="text-slate-500 hover:text-red-600"><Trash2 size={14}/></button>
+                </div>
+              </div>
+              <ColumnSettings column={column} base={base} onChange={(next) => update(i, next)} />
+              <div className="border-t border-slate-100 pt-2">
+                <ColumnReply result={result} onPromote={() => result?.status === "done" && onPromote(result.message)} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,45 @@
+import { Modal, SmallButton } from "./ui";
+import { diffMessages, diffSummary } from "./diff";
+import { stripBranch } from "./branches";
+import type { Message } from "./messageFields";
+import type { Conversation } from "./storage";
+
+// Shown when the open conversation was saved by another tab while this tab
+// holds different, unsaved-to-them edits. `theirs` is null when it was deleted.
+export function ConflictDialog({ name, mine, theirs, onKeepMine, onUseTheirs, onSaveCopy }: { name: string; mine: Message[]; theirs: Conversation | null; onKeepMine: () => void; onUseTheirs: () => void; onSaveCopy: () => void; }) {
+  const summary = theirs ? diffSummary(diffMessages(mine.map(stripBranch), theirs.messages.map(stripBranch))) : null;
+  return (
+    <Modal
+      title="Conversation changed in another tab"
+      // a decision is required: saving stays paused until then
+      onClose={() => {}}
+      footer={
+        <>
+          <SmallButton onClick={onSaveCopy} title="Keep your version as a new conversation and load the other tab's version here">Save mine as a copy</SmallButton>
+          <SmallButton onClick={onUseTheirs} title="Discard your edits (undo brings them back)">{theirs ? "Use theirs" : "Close it"}</SmallButton>
+          <button
+            type="button"
+            onClick={onKeepMine}
+            className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1 text-xs text-white shadow hover:bg-slate-800"
+          >
+            Keep mine
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-2 text-sm">
+        {theirs ? (
+          <p>“{name}” was saved in another tab while you were editing it here. Saving is paused until you choose which version to keep.</p>
+        ) : (
+          <p>“{name}” was deleted in another tab while you were editing it here.</p>
+        )}
+        {summary && theirs && (
+          <p className="text-xs text-slate-600">
+            Their version: {summary.added || 0} added, {summary.removed || 0} removed, {summary.changed || 0} changed, {summary.moved || 0} moved
+            {theirs.name !== name ? `, renamed to “${theirs.name}”` : ""}.
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { AlertTriangle, CheckCircle2, FlaskConical, Loader2, Play, Plus, Square, Trash2, XCircle } from "lucide-react";
+import { Collapsible, Textarea, SmallButton } from "./ui";
+import { ASSERTION_KINDS, MAX_EVAL_RUNS, assertionError, checkAssertion, newAssertion, passRate } from "./evals";
+import type { Assertion, AssertionKind, EvalRun, Evals } from "./evals";
+import type { Message } from "./messageFields";
+import type { ResponseFormat } from "./responseFormat";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const percent = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`);
+
+function AssertionRow({ assertion, reference, responseFormat, onChange, onRemove }: { assertion: Assertion; reference: Message | null; responseFormat: ResponseFormat | null; onChange: (a: Assertion) => void; onRemove: () => void; }) {
+  const a = assertion;
+  const kind = ASSERTION_KINDS.find((k) => k.id === a.kind)!;
+  const error = assertionError(a, responseFormat);
+  const check = !error && reference ? checkAssertion(a, reference, responseFormat) : null;
+  return (
+    <div className="space-y-1 rounded-lg border border-slate-200 p-2">
+      <div className="flex items-center gap-1">
+        <select className={inputClass} value={a.kind} onChange={(e) => onChange({ id: a.id, kind: e.target.value as AssertionKind, value: "" })}>
+          {ASSERTION_KINDS.map((k) => <option key={k.id} value={k.id}>{k.label}</option>)}
+        </select>
+        {check && (
+          <span title={check.pass ? "The reference answer passes" : `The reference answer fails: ${check.detail}`}>
+            {check.pass ? <CheckCircle2 size={14} className="text-emerald-600"/> : <XCircle size={14} className="text-red-600"/>}
+          </span>
+        )}
+        <button type="button" onClick={onRemove} title="Remove assertion" className="text-slate-500 hover:text-red-600"><Trash2 size={14}/></button>
+      </div>
+      {a.kind === "json_schema" ? (
+        <Textarea rows={2} value={a.value} onChange={(value) => onChange({ ...a, value })} placeholder={kind.placeholder} />
+      ) : (
+        <div className="flex items-center gap-1">
+          <input className={`${inputClass} font-mono`} value={a.value} onChange={(e) => onChange({ ...a, value: e.target.value })} placeholder={kind.placeholder} />
+          {a.kind === "regex" && <input className={`${inputClass} w-14 font-mono`} value={a.flags || ""} onChange={(e) => onChange({ ...a, flags: e.target.value })} placeholder="flags" title="Regex flags, e.g. i" />}
+        </div>
+      )}
+      {a.kind === "tool_call" && (
+        <input className={`${inputClass} font-mono`} value={a.args || ""} onChange={(e) => onChange({ ...a, args: e.target.value })} placeholder='arguments subset (optional), e.g. {"location": "Dublin"}' />
+      )}
+      {error && <div className="text-[11px] text-red-600">{error}</div>}
+    </div>
+  );
+}
+
+function RunEntry({ run, previous }: { run: EvalRun; previous?: EvalRun }) {
+  return (
+    <details className="rounded-lg border border-slate-200 p-2 text-xs">
+      <summary className="cursor-pointer">
+        <span className="text-slate-700">{new Date(run.at).toLocaleString()}</span>
+        <span className="text-slate-500"> · {run.model || "default model"} · {run.completed}/{run.runs} runs{run.stopped ? " (stopped)" : ""}</span>
+        {run.errors.length > 0 && <span className="text-red-600"> · errors</span>}
+      </summary>
+      <ul className="mt-1 space-y-0.5">
+        {run.results.map((r) => {
+          const rate = passRate(r, run);
+          const before = previous?.results.find((p) => p.assertionId === r.assertionId);
+          const prevRate = before ? passRate(before, previous!) : null;
+          const delta = rate !== null && prevRate !== null ? Math.round((rate - prevRate) * 100) : 0;
+          return (
+            <li key={r.assertionId} className="flex items-start justify-between gap-2" title={r.failure ? `First failure: ${r.failure}` : undefined}>
+              <span className="break-all font-mono text-slate-600">{r.label}</span>
+              <span className={`shrink-0 tabular-nums ${rate === 1 ? "text-emerald-700" : rate === null ? "text-slate-400" : "text-red-600"}`}>
+                {percent(rate)}
+                {delta !== 0 && <span className={delta > 0 ? "text-emerald-600" : "text-red-600"}> {delta > 0 ? "▲" : "▼"}{Math.abs(delta)}</span>}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {run.meanLatencyMs !== null && <div className="mt-1 text-slate-500">mean latency {(run.meanLatencyMs / 1000).toFixed(2)} s</div>}
+      {run.errors.map((e, k) => <div key={k} className="mt-1 text-red-600">{e}</div>)}
+      {run.samples.length > 0 && (
+        <div className="mt-1 space-y-1">
+          <div className="text-slate-500">Sample replies</div>
+          {run.samples.map((s, k) => <pre key={k} className="max-h-24 overflow-auto whitespace-pre-wrap break-words rounded bg-slate-50 p-1 font-mono text-[11px] text-slate-600">{s || "(empty)"}</pre>)}
+        </div>
+      )}
+    </details>
+  );
+}
+
+// Assertions about the next assistant turn, the runner and its history. A
+// trailing assistant message is the reference answer: it is checked live and
+// left out of what is sent.
+export function EvalPanel({ evals, setAssertions, clearHistory, reference, responseFormat, progress, onRun, onStop }: { evals: Evals; setAssertions: (list: Assertion[]) => void; clearHistory: () => void; reference: Message | null; responseFormat: ResponseFormat | null; progress: { done: number; total: number } | null; onRun: (runs: number) => void; onStop: () => void; }) {
+  const [runs, setRuns] = useState(5);
+  const { assertions, history } = evals;
+  const invalid = assertions.some((a) => assertionError(a, responseFormat));
+  const latest = history[history.length - 1];
+  const summary = latest ? latest.results.map((r) => percent(passRate(r, latest))).join(" · ") : "";
+
+  return (
+    <Collapsible title={`Evals (${assertions.length})${summary ? ` — ${summary}` : ""}`} defaultOpen={false}>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm font-medium"><FlaskConical size={16}/> Assertions</div>
+          <SmallButton onClick={() => setAssertions([...assertions, newAssertion()])} title="Add assertion"><Plus size={14}/>Add</SmallButton>
+        </div>
+        {assertions.length === 0 && <p className="text-xs text-slate-500">No assertions. Add some to check what a model answers to this conversation.</p>}
+        {assertions.map((a, i) => (
+          <AssertionRow
+            key={a.id}
+            assertion={a}
+            reference={reference}
+            responseFormat={responseFormat}
+            onChange={(next) => setAssertions(assertions.map((x, k) => (k === i ? next : x)))}
+            onRemove={() => setAssertions(assertions.filter((_, k) => k !== i))}
+          />
+        ))}
+        <div className="flex items-center gap-1 border-t border-slate-100 pt-2">
+          <input
+            type="number"
+            min={1}
+            max={MAX_EVAL_RUNS}
+            className={`${inputClass} w-16`}
+            value={runs}
+            onChange={(e) => setRuns(Math.min(MAX_EVAL_RUNS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            title="Number of completions to request"
+          />
+          <span className="text-xs text-slate-500">runs</span>
+          {progress ? (
+            <SmallButton onClick={onStop} title="Stop after the current request"><Loader2 size={14} className="animate-spin"/><Square size={12}/>{progress.done}/{progress.total}</SmallButton>
+          ) : (
+            <SmallButton onClick={assertions.length && !invalid ? () => onRun(runs) : undefined} title={invalid ? "Fix the invalid assertions first" : "Send the conversation to the endpoint and check every reply"}><Play size={14}/>Run</SmallButton>
+          )}
+        </div>
+        {invalid && <div className="flex items-center gap-1 text-xs text-amber-700"><AlertTriangle size={14}/> Some assertions can't be checked yet</div>}
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-slate-700">History</span>
+              <SmallButton onClick={clearHistory} title="Delete all recorded runs"><Trash2 size={14}/>Clear</SmallButton>
+            </div>
+            {history.slice().reverse().map((run, k, list) => <RunEntry key={run.id} run={run} previous={list[k + 1]} />)}
+          </div>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,151 @@
+import { useMemo, useState } from "react";
+import { Camera, GitCompare, RotateCcw, Trash2 } from "lucide-react";
+import { Collapsible, Modal, RoleBadge, SmallButton } from "./ui";
+import { diffMessages, diffSummary, diffWords, messageText } from "./diff";
+import type { DiffRow, WordOp } from "./diff";
+import { stripBranch } from "./branches";
+import type { Snapshot } from "./snapshots";
+import type { EditorState } from "./history";
+import type { Message } from "./messageFields";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+// Anything that can be compared: the live editor, a snapshot, another conversation
+export type DiffSource = { key: string; group: string; label: string; state: EditorState };
+
+export function HistoryPanel({ snapshots, onCreate, onRestore, onDelete, onCompare }: { snapshots: Snapshot[]; onCreate: (name: string) => void; onRestore: (snap: Snapshot) => void; onDelete: (snap: Snapshot) => void; onCompare: (leftKey?: string) => void; }) {
+  const [name, setName] = useState("");
+  const create = () => {
+    onCreate(name.trim() || `Snapshot ${new Date().toLocaleString()}`);
+    setName("");
+  };
+  return (
+    <Collapsible title={`History (${snapshots.length})`} defaultOpen={false}>
+      <div className="space-y-2">
+        <div className="flex items-center gap-1">
+          <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && create()} placeholder="e.g., before tweaking system prompt" />
+          <SmallButton onClick={create} title="Save a named snapshot of this conversation"><Camera size={14}/></SmallButton>
+        </div>
+        {snapshots.length === 0 && <p className="text-xs text-slate-500">No snapshots yet. Automatic ones are taken every few minutes while you edit.</p>}
+        <div className="space-y-1">
+          {snapshots.slice().reverse().map((s) => (
+            <div key={s.id} className="flex items-center justify-between gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs">
+              <div className="min-w-0">
+                <div className="truncate font-medium">
+                  {s.auto && <span className="mr-1 rounded bg-slate-100 px-1 text-[10px] font-normal text-slate-500">auto</span>}
+                  {s.name}
+                </div>
+                <div className="text-[11px] text-slate-500">{new Date(s.createdAt).toLocaleString()} · {s.state.messages.length} msgs</div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <SmallButton onClick={() => onCompare(`snap:${s.id}`)} title="Compare with the current editor"><GitCompare size={14}/></SmallButton>
+                <SmallButton onClick={() => onRestore(s)} title="Restore this snapshot (undoable)"><RotateCcw size={14}/></SmallButton>
+                <SmallButton onClick={() => onDelete(s)} title="Delete snapshot"><Trash2 size={14}/></SmallButton>
+              </div>
+            </div>
+          ))}
+        </div>
+        <SmallButton onClick={() => onCompare()} title="Compare any two snapshots or conversations"><GitCompare size={14}/>Compare…</SmallButton>
+      </div>
+    </Collapsible>
+  );
+}
+
+function Words({ words, side }: { words: WordOp[]; side: "a" | "b" }) {
+  return (
+    <>
+      {words.map((w, i) => {
+        if (w.op === "same") return <span key={i}>{w.text}</span>;
+        if (side === "a" && w.op === "del") return <del key={i} className="bg-red-100 text-red-800">{w.text}</del>;
+        if (side === "b" && w.op === "add") return <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">{w.text}</ins>;
+        return null;
+      })}
+    </>
+  );
+}
+
+const ROW_STYLES: Record<DiffRow["type"], string> = {
+  same: "border-slate-200",
+  moved: "border-sky-300 bg-sky-50",
+  changed: "border-amber-300",
+  added: "border-emerald-300 bg-emerald-50",
+  removed: "border-red-300 bg-red-50",
+};
+
+function Cell({ row, side, messages }: { row: DiffRow; side: "a" | "b"; messages: Message[] }) {
+  const index = side === "a" ? ("a" in row ? row.a : null) : "b" in row ? row.b : null;
+  if (index === null) return <div />;
+  const msg = messages[index];
+  return (
+    <div className={`min-w-0 rounded-lg border p-2 ${ROW_STYLES[row.type]}`}>
+      <div className="mb-1 flex items-center gap-2 text-[11px] text-slate-500">
+        <RoleBadge role={msg.role} />
+        <span>#{index + 1}</span>
+        {row.type !== "same" && row.type !== "changed" && <span className="font-medium">{row.type}</span>}
+        {row.type === "moved" && <span>{side === "a" ? `→ #${row.b + 1}` : `from #${row.a + 1}`}</span>}
+      </div>
+      <div className="whitespace-pre-wrap break-words font-mono text-xs">
+        {row.type === "changed" ? <Words words={row.words} side={side} /> : messageText(msg) || <span className="text-slate-400">(empty)</span>}
+      </div>
+    </div>
+  );
+}
+
+export function DiffModal({ sources, initialLeft, initialRight, onClose }: { sources: DiffSource[]; initialLeft: string; initialRight: string; onClose: () => void; }) {
+  const [left, setLeft] = useState(initialLeft);
+  const [right, setRight] = useState(initialRight);
+  const a = sources.find((s) => s.key === left) || sources[0];
+  const b = sources.find((s) => s.key === right) || sources[0];
+  const aMsgs = useMemo(() => a.state.messages.map(stripBranch), [a]);
+  const bMsgs = useMemo(() => b.state.messages.map(stripBranch), [b]);
+  const rows = useMemo(() => diffMessages(aMsgs, bMsgs), [aMsgs, bMsgs]);
+  const summary = diffSummary(rows);
+  const toolWords = useMemo(() => (a.state.tools === b.state.tools ? null : diffWords(a.state.tools, b.state.tools)), [a, b]);
+  const groups = [...new Set(sources.map((s) => s.group))];
+
+  const picker = (value: string, setValue: (v: string) => void) => (
+    <select className={inputClass} value={value} onChange={(e) => setValue(e.target.value)}>
+      {groups.map((g) => (
+        <optgroup key={g} label={g}>
+          {sources.filter((s) => s.group === g).map((s) => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </optgroup>
+      ))}
+    </select>
+  );
+
+  return (
+    <Modal title="Compare revisions" onClose={onClose} wide footer={<SmallButton onClick={onClose}>Close</SmallButton>}>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {picker(left, setLeft)}
+          {picker(right, setRight)}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+          <span className="text-emerald-700">+{summary.added || 0} added</span>
+          <span className="text-red-700">−{summary.removed || 0} removed</span>
+          <span className="text-amber-700">~{summary.changed || 0} changed</span>
+          <span className="text-sky-700">↕{summary.moved || 0} moved</span>
+          <span>{summary.same || 0} unchanged</span>
+          {a.state.name !== b.state.name && <span>name: “{a.state.name}” → “{b.state.name}”</span>}
+        </div>
+        <div className="space-y-1">
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2 gap-2">
+              <Cell row={row} side="a" messages={aMsgs} />
+              <Cell row={row} side="b" messages={bMsgs} />
+            </div>
+          ))}
+        </div>
+        {toolWords && (
+          <div>
+            <div className="mb-1 text-xs font-medium">Tools changed</div>
+            <div className="grid grid-cols-2 gap-2">
+              <pre className="overflow-x-auto rounded-lg border border-amber-300 p-2 text-[11px]"><Words words={toolWords} side="a" /></pre>
+              <pre className="overflow-x-auto rounded-lg border border-amber-300 p-2 text-[11px]"><Words words={toolWords} side="b" /></pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Modal, SmallButton } from "./ui";
+import { IMPORT_FORMAT_LABELS } from "./importers";
+import type { ImportResult } from "./importers";
+
+export function ImportPreview({ fileName, result, onConfirm, onCancel }: { fileName: string; result: ImportResult; onConfirm: (name: string) => void; onCancel: () => void; }) {
+  const [name, setName] = useState(fileName);
+  const roles = result.messages.reduce((acc: Record<string, number>, m) => ({ ...acc, [m.role]: (acc[m.role] || 0) + 1 }), {});
+  const calls = result.messages.reduce((n, m) => n + (m.tool_calls?.length || 0), 0);
+  return (
+    <Modal
+      title="Import conversation"
+      onClose={onCancel}
+      footer={
+        <>
+          <SmallButton onClick={onCancel}>Cancel</SmallButton>
+          <button
+            type="button"
+            onClick={() => onConfirm(name.trim() || "Imported Conversation")}
+            className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1 text-xs text-white shadow hover:bg-slate-800"
+          >
+            Create conversation
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <div>
+          <label className="text-xs text-slate-600">Name</label>
+          <input
+            className="mt-1 w-full rounded-lg border border-slate-300 p-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <dl className="grid grid-cols-3 gap-y-1 text-xs">
+          <dt className="text-slate-500">Detected format</dt>
+          <dd className="col-span-2 font-medium">{IMPORT_FORMAT_LABELS[result.format]}</dd>
+          <dt className="text-slate-500">Messages</dt>
+          <dd className="col-span-2">
+            {result.messages.length}
+            {result.messages.length > 0 && ` (${Object.entries(roles).map(([r, n]) => `${n} ${r}`).join(", ")})`}
+          </dd>
+          <dt className="text-slate-500">Tool calls</dt>
+          <dd className="col-span-2">{calls}</dd>
+          <dt className="text-slate-500">Tools</dt>
+          <dd className="col-span-2">
+            {result.tools
+              ? result.tools.length
+                ? result.tools.map((t) => t.function?.name).join(", ")
+                : "none"
+              : "not included in file (conversation starts with no tools)"}
+          </dd>
+          {result.responseFormat && (
+            <>
+              <dt className="text-slate-500">Response format</dt>
+              <dd className="col-span-2">{result.responseFormat.json_schema?.name || "json_schema"}</dd>
+            </>
+          )}
+        </dl>
+        {result.unmapped.length > 0 && (
+          <div className="rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+            <div className="mb-1 flex items-center gap-1 font-medium"><AlertTriangle size={14}/> Not imported</div>
+            <ul className="list-inside list-disc space-y-0.5">
+              {result.unmapped.map((u, i) => <li key={i}>{u}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export function JSONLImportReport({ fileName, imported, errors, onClose }: { fileName: string; imported: number; errors: { line: number; message: string }[]; onClose: () => void; }) {
+  return (
+    <Modal title={`Imported ${fileName}`} onClose={onClose} footer={<SmallButton onClick={onClose}>Close</SmallButton>}>
+      <p className="text-sm">
+        Created {imported} conversation{imported === 1 ? "" : "s"}.
+        {errors.length > 0 && ` Skipped ${errors.length} malformed line${errors.length === 1 ? "" : "s"}.`}
+      </p>
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-0.5 rounded-lg bg-red-50 p-2 text-xs text-red-700">
+          {errors.map((e) => <li key={e.line}><span className="font-mono">line {e.line}</span>: {e.message}</li>)}
+        </ul>
+      )}
+    </Modal>
+  );
+}
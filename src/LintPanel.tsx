@@ -0,0 +1,55 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { Collapsible } from "./ui";
+import type { LintIssue } from "./lint";
+import type { Message } from "./messageFields";
+
+export function LintBadge({ issues }: { issues: LintIssue[] }) {
+  if (!issues.length) return null;
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+  return (
+    <span
+      title={issues.map((i) => `${i.severity}: ${i.message}`).join("\n")}
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${errors ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"}`}
+    >
+      <AlertTriangle size={12}/>
+      {errors ? `${errors} error${errors > 1 ? "s" : ""}` : ""}
+      {errors && warnings ? ", " : ""}
+      {warnings ? `${warnings} warning${warnings > 1 ? "s" : ""}` : ""}
+    </span>
+  );
+}
+
+export function LintPanel({ issues, messages, onJump, blockExport, setBlockExport }: { issues: LintIssue[]; messages: Message[]; onJump: (index: number) => void; blockExport: boolean; setBlockExport: (v: boolean) => void; }) {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  return (
+    <Collapsible title={`Lint (${errors} error${errors === 1 ? "" : "s"}, ${issues.length - errors} warning${issues.length - errors === 1 ? "" : "s"})`} defaultOpen={true}>
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-1 text-xs text-emerald-700"><CheckCircle2 size={14}/> No problems found</div>
+      ) : (
+        <ul className="space-y-1">
+          {issues.map((issue, k) => (
+            <li key={k}>
+              <button
+                type="button"
+                onClick={() => onJump(issue.index)}
+                className="flex w-full items-start gap-1 rounded-lg px-1 py-0.5 text-left text-xs hover:bg-slate-50"
+                title="Jump to message"
+              >
+                {issue.severity === "error" ? <XCircle size={14} className="mt-0.5 shrink-0 text-red-600"/> : <AlertTriangle size={14} className="mt-0.5 shrink-0 text-amber-600"/>}
+                <span>
+                  <span className="font-medium text-slate-700">#{issue.index + 1} {messages[issue.index]?.role}</span>{" "}
+                  <span className="text-slate-600">{issue.message}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="mt-3 flex items-center gap-2 border-t border-slate-100 pt-2 text-xs text-slate-600">
+        <input type="checkbox" checked={blockExport} onChange={(e) => setBlockExport(e.target.checked)} />
+        Block export while there are errors
+      </label>
+    </Collapsible>
+  );
+}
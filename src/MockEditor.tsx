@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Play } from "lucide-react";
+import { Textarea, SmallButton } from "./ui";
+import { MOCK_TIMEOUT_MS, getMock, setMock, mockResponse, parseArguments } from "./mocks";
+import type { MockKind } from "./mocks";
+import type { Tool } from "./toolSchema";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const PLACEHOLDERS: Record<MockKind, string> = {
+  template: '{"location": "{{args.location}}", "tempC": 15}',
+  script: "// `args` holds the call's arguments; return the response\nreturn { location: args.location, tempC: 10 + args.location.length };",
+};
+
+// Mock response for one tool, used by "Fill tool responses"
+export function MockEditor({ tool, onChange }: { tool: Tool; onChange: (v: Tool) => void }) {
+  const mock = getMock(tool);
+  const [sample, setSample] = useState("{}");
+  const [result, setResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const setKind = (kind: MockKind | "") => {
+    setResult(null);
+    onChange(setMock(tool, kind ? { kind, source: mock?.source ?? "" } : null));
+  };
+
+  const test = async () => {
+    if (!mock) return;
+    try {
+      setResult({ ok: true, text: await mockResponse(mock, parseArguments(sample)) });
+    } catch (e) {
+      setResult({ ok: false, text: (e as Error).message });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs text-slate-600">Mock response</label>
+      <select className={inputClass} value={mock?.kind || ""} onChange={(e) => setKind(e.target.value as MockKind | "")}>
+        <option value="">None</option>
+        <option value="template">Template ({"{{args.name}}"} placeholders)</option>
+        <option value="script">JavaScript (sandboxed, {MOCK_TIMEOUT_MS} ms limit)</option>
+      </select>
+      {mock && (
+        <>
+          <Textarea rows={3} value={mock.source} onChange={(source) => onChange(setMock(tool, { ...mock, source }))} placeholder={PLACEHOLDERS[mock.kind]} />
+          <div className="flex items-center gap-1">
+            <input data-history="off" className={`${inputClass} font-mono`} value={sample} onChange={(e) => setSample(e.target.value)} placeholder="sample arguments (JSON)" title="Arguments to test the mock with" />
+            <SmallButton onClick={test} title="Run the mock with the sample arguments"><Play size={14}/>Test</SmallButton>
+          </div>
+          {result && (
+            <pre className={`whitespace-pre-wrap break-words rounded-lg p-2 font-mono text-[11px] ${result.ok ? "bg-slate-50 text-slate-700" : "bg-red-50 text-red-700"}`}>{result.text}</pre>
+          )}
+          <p className="text-[11px] text-slate-500">Kept with the conversation; never exported or sent to a model.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useRef, useState } from "react";
+import type { ClipboardEvent, DragEvent } from "react";
+import { AlertTriangle, ArrowDown, ArrowUp, FileText, Image, Paperclip, Plus, Trash2, Type, X } from "lucide-react";
+import { Textarea, SmallButton } from "./ui";
+import { fileToPart, formatBytes, isPartList, partBytes, toParts } from "./contentParts";
+import type { ContentPart, ImageDetail, MessageContent } from "./contentParts";
+
+const inputClass = "rounded-lg border border-slate-300 p-1 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const hasFiles = (e: DragEvent | ClipboardEvent) => {
+  const items = "dataTransfer" in e ? e.dataTransfer?.types : e.clipboardData?.types;
+  return !!items && Array.from(items).includes("Files");
+};
+
+const Thumbnail = ({ url }: { url: string }) => <img src={url} alt="" className="max-h-40 max-w-full rounded-lg border border-slate-200 object-contain" />;
+
+// A remote image from someone else's conversation: fetching it would tell its
+// host that the conversation was opened, so it only loads on request
+function RemoteImage({ url }: { url: string }) {
+  const [load, setLoad] = useState(false);
+  if (load) return <Thumbnail url={url} />;
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-dashed border-slate-300 p-2 text-xs text-slate-600">
+      <Image size={14} className="shrink-0"/>
+      <span className="min-w-0 flex-1 break-all font-mono text-[11px]">{url}</span>
+      <SmallButton onClick={() => setLoad(true)} title="Fetch the image from its host">Load</SmallButton>
+    </div>
+  );
+}
+
+// Non-text parts are shown, not edited: a thumbnail, a player or a file name.
+// With `untrusted`, only embedded (data:) images are shown right away.
+export function PartPreview({ part, untrusted = false }: { part: ContentPart; untrusted?: boolean }) {
+  if (part?.type === "image_url") {
+    const url = String(part.image_url?.url || "");
+    return untrusted && !url.startsWith("data:") ? <RemoteImage url={url} /> : <Thumbnail url={url} />;
+  }
+  if (part?.type === "input_audio") {
+    return <audio controls className="h-8 w-full" src={`data:audio/${part.input_audio?.format === "mp3" ? "mpeg" : "wav"};base64,${part.input_audio?.data}`} />;
+  }
+  return (
+    <span className="inline-flex items-center gap-1 rounded-lg bg-slate-100 px-2 py-1 text-xs text-slate-700">
+      <FileText size={14}/>{(part?.type === "file" && part.file?.filename) || part?.type || "file"}
+    </span>
+  );
+}
+
+// Content of a user or tool message: a plain string, or an ordered list of
+// content parts once something other than text is added. Images, audio and
+// files can be attached, dropped or pasted.
+export function PartsEditor({ content, onChange, placeholder, rows = 3 }: { content: MessageContent | undefined; onChange: (v: MessageContent) => void; placeholder?: string; rows?: number; }) {
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const parts = isPartList(content) ? content : null;
+  // reading files takes a while; text typed meanwhile must not be lost
+  const latest = useRef({ content, onChange });
+  latest.current = { content, onChange };
+
+  const addFiles = async (files: File[]) => {
+    if (!files.length) return;
+    setError(null);
+    try {
+      const added = await Promise.all(files.map(fileToPart));
+      latest.current.onChange([...toParts(latest.current.content), ...added]);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const setPart = (i: number, part: ContentPart) => onChange(parts!.map((p, k) => (k === i ? part : p)));
+  const removePart = (i: number) => onChange(parts!.filter((_, k) => k !== i));
+  const movePart = (i: number, dir: -1 | 1) => {
+    const j = i + dir;
+    if (!parts || j < 0 || j >= parts.length) return;
+    const copy = [...parts];
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+    onChange(copy);
+  };
+
+  const total = parts ? parts.reduce((n, p) => n + partBytes(p), 0) : 0;
+  const textOnly = !!parts && parts.every((p) => p?.type === "text");
+
+  return (
+    <div
+      className={`space-y-2 rounded-xl ${dragging ? "ring-2 ring-blue-400 ring-offset-2" : ""}`}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(false);
+        addFiles(Array.from(e.dataTransfer.files));
+      }}
+      onPaste={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        addFiles(Array.from(e.clipboardData.files));
+      }}
+    >
+      {parts ? (
+        parts.map((p, i) => (
+          <div key={i} className="rounded-lg border border-slate-200 p-2">
+            <div className="mb-1 flex items-center justify-between text-[11px] text-slate-500">
+              <span>
+                {p?.type}
+                {partBytes(p) > 0 && ` · ${formatBytes(partBytes(p))}`}
+              </span>
+              <div className="flex items-center gap-1">
+                {p?.type === "image_url" && (
+                  <select className={inputClass} value={p.image_url?.detail || "auto"} onChange={(e) => setPart(i, { ...p, image_url: { ...p.image_url, detail: e.target.value === "auto" ? undefined : (e.target.value as ImageDetail) } })} title="Image detail">
+                    <option value="auto">auto</option>
+                    <option value="low">low</option>
+                    <option value="high">high</option>
+                  </select>
+                )}
+                <button type="button" onClick={() => movePart(i, -1)} title="Move up"><ArrowUp size={12}/></button>
+                <button type="button" onClick={() => movePart(i, 1)} title="Move down"><ArrowDown size={12}/></button>
+                <button type="button" onClick={() => removePart(i)} title="Remove part" className="hover:text-red-600"><Trash2 size={12}/></button>
+              </div>
+            </div>
+            {p?.type === "text" ? (
+              <Textarea rows={2} value={p.text ?? ""} onChange={(text) => setPart(i, { ...p, text })} placeholder={placeholder} />
+            ) : (
+              <PartPreview part={p} />
+            )}
+          </div>
+        ))
+      ) : (
+        <Textarea rows={rows} value={typeof content === "string" ? content : ""} onChange={onChange} placeholder={placeholder} />
+      )}
+      <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-500">
+        {parts && <SmallButton onClick={() => onChange([...parts, { type: "text", text: "" }])} title="Add a text part"><Plus size={14}/>Text</SmallButton>}
+        <label className="inline-flex cursor-pointer items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50" title="Attach images, WAV/MP3 audio or files">
+          <Paperclip size={14}/>Attach
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {textOnly && (
+          <SmallButton onClick={() => onChange(parts!.map((p) => (p.type === "text" ? p.text ?? "" : "")).join("\n"))} title="Join the text parts into plain string content"><Type size={14}/>Plain text</SmallButton>
+        )}
+        <span>or drop / paste images</span>
+        {total > 0 && <span className="ml-auto tabular-nums">{formatBytes(total)}</span>}
+      </div>
+      {error && (
+        <div className="flex items-start justify-between gap-2 text-xs text-red-600">
+          <span className="flex items-start gap-1"><AlertTriangle size={12} className="mt-0.5 shrink-0"/>{error}</span>
+          <button type="button" onClick={() => setError(null)} title="Dismiss" className="shrink-0"><X size={12}/></button>
+        </div>
+      )}
+    </div>
+  );
+}
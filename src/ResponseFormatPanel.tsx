@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Braces, Plus, Trash2 } from "lucide-react";
+import { Collapsible, SmallButton, JSONField } from "./ui";
+import { PropertiesEditor } from "./ToolsPanel";
+import { checkResponseFormat, emptyResponseFormat, isResponseFormat } from "./responseFormat";
+import type { ResponseFormat } from "./responseFormat";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const pretty = (v: unknown) => JSON.stringify(v, null, 2);
+
+// The conversation's response_format, edited with the same property editor as
+// tool parameters or as raw JSON. JSON edits only apply once they parse.
+export function ResponseFormatPanel({ value, onChange }: { value: ResponseFormat | null; onChange: (v: ResponseFormat | null) => void; }) {
+  const [mode, setMode] = useState<"visual" | "json">("visual");
+  const [draft, setDraft] = useState(() => pretty(value));
+  useEffect(() => {
+    setDraft((d) => {
+      try {
+        return JSON.stringify(JSON.parse(d)) === JSON.stringify(value) ? d : pretty(value);
+      } catch {
+        return pretty(value);
+      }
+    });
+  }, [value]);
+  const issues = useMemo(() => (value ? checkResponseFormat(value) : []), [value]);
+
+  const editJSON = (text: string) => {
+    setDraft(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed === null || isResponseFormat(parsed)) onChange(parsed);
+    } catch {
+      // keep the draft until it parses
+    }
+  };
+
+  const spec = isResponseFormat(value) ? value.json_schema : null;
+  const setSpec = (patch: Partial<ResponseFormat["json_schema"]>) => value && onChange({ ...value, json_schema: { ...value.json_schema, ...patch } });
+
+  return (
+    <Collapsible title={`Response format (${spec?.name || (value ? "?" : "none")})`} defaultOpen={false}>
+      <div className="mb-2 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium"><Braces size={16}/> JSON Schema</div>
+        <div className="flex items-center gap-1">
+          {value ? (
+            <>
+              <SmallButton onClick={() => setMode(mode === "visual" ? "json" : "visual")} title="Toggle raw JSON">{mode === "visual" ? "JSON" : "Visual"}</SmallButton>
+              <SmallButton onClick={() => onChange(null)} title="Remove the response format"><Trash2 size={14}/>Remove</SmallButton>
+            </>
+          ) : (
+            <SmallButton onClick={() => onChange(emptyResponseFormat())} title="Define the schema the final answer must follow"><Plus size={14}/>Add</SmallButton>
+          )}
+        </div>
+      </div>
+      {!value && <p className="text-xs text-slate-500">No response format. Add one to send it with runs and exports and to check the final assistant answer against it.</p>}
+      {value && issues.length > 0 && (
+        <ul className="mb-2 space-y-0.5 text-xs text-amber-700">
+          {issues.map((i, k) => (
+            <li key={k} className="flex items-start gap-1"><AlertTriangle size={12} className="mt-0.5 shrink-0"/><span>{i.path ? <code className="font-mono">{i.path}</code> : null} {i.message}</span></li>
+          ))}
+        </ul>
+      )}
+      {value && (mode === "json" || !spec ? (
+        <JSONField label="response_format (JSON)" value={draft} onChange={editJSON} placeholder={pretty(emptyResponseFormat())} />
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 items-end gap-2">
+            <div className="col-span-2">
+              <label className="text-xs text-slate-600">Name</label>
+              <input className={inputClass} value={spec.name || ""} onChange={(e) => setSpec({ name: e.target.value })} placeholder="e.g., invoice_fields" />
+            </div>
+            <label className="flex items-center gap-1 pb-1.5 text-xs text-slate-600" title="Ask the model to follow the schema exactly">
+              <input type="checkbox" checked={!!spec.strict} onChange={(e) => setSpec({ strict: e.target.checked })} /> strict
+            </label>
+          </div>
+          <div>
+            <label className="text-xs text-slate-600">Properties</label>
+            <PropertiesEditor schema={spec.schema || emptyResponseFormat().json_schema.schema} onChange={(schema) => setSpec({ schema })} />
+          </div>
+        </div>
+      ))}
+    </Collapsible>
+  );
+}
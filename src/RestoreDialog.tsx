@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Modal, SmallButton } from "./ui";
+import { planRestore } from "./backup";
+import type { RestoreMode, RestoreSummary, WorkspaceBackup } from "./backup";
+import type { Conversation } from "./storage";
+
+const SUMMARY_ROWS: { key: keyof RestoreSummary; label: string; className: string }[] = [
+  { key: "added", label: "Added", className: "text-emerald-700" },
+  { key: "updated", label: "Updated from backup", className: "text-blue-700" },
+  { key: "keptLocal", label: "Kept (local copy is newer)", className: "text-slate-600" },
+  { key: "unchanged", label: "Unchanged", className: "text-slate-500" },
+  { key: "removed", label: "Removed", className: "text-red-700" },
+];
+
+export function RestoreDialog({ fileName, backup, skipped, current, onBackupFirst, onConfirm, onCancel }: { fileName: string; backup: WorkspaceBackup; skipped: number; current: Conversation[]; onBackupFirst: () => void; onConfirm: (conversations: Conversation[], withSettings: boolean) => void; onCancel: () => void; }) {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [withSettings, setWithSettings] = useState(false);
+  const plan = useMemo(() => planRestore(current, backup, mode), [current, backup, mode]);
+  const empty = plan.conversations.length === 0;
+  return (
+    <Modal
+      title="Restore workspace"
+      onClose={onCancel}
+      footer={
+        <>
+          <SmallButton onClick={onCancel}>Cancel</SmallButton>
+          <button
+            type="button"
+            disabled={empty}
+            onClick={() => onConfirm(plan.conversations, withSettings)}
+            className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1 text-xs text-white shadow hover:bg-slate-800 disabled:opacity-40"
+          >
+            {mode === "merge" ? "Merge" : "Replace workspace"}
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-3 text-sm">
+        <dl className="grid grid-cols-3 gap-y-1 text-xs">
+          <dt className="text-slate-500">File</dt>
+          <dd className="col-span-2 truncate font-medium">{fileName}</dd>
+          <dt className="text-slate-500">Created</dt>
+          <dd className="col-span-2">{backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : "unknown"}</dd>
+          <dt className="text-slate-500">Conversations</dt>
+          <dd className="col-span-2">{backup.conversations.length}{skipped > 0 && ` (${skipped} unreadable, skipped)`}</dd>
+        </dl>
+        <div className="space-y-1 text-xs">
+          <label className="flex items-start gap-2">
+            <input type="radio" className="mt-0.5" checked={mode === "merge"} onChange={() => setMode("merge")} />
+            <span><span className="font-medium">Merge</span> — keep this workspace and add the backup; a conversation in both keeps its newer copy</span>
+          </label>
+          <label className="flex items-start gap-2">
+            <input type="radio" className="mt-0.5" checked={mode === "replace"} onChange={() => setMode("replace")} />
+            <span><span className="font-medium">Replace</span> — make this workspace exactly the backup</span>
+          </label>
+          <label className={`flex items-center gap-2 ${backup.settings ? "" : "text-slate-400"}`}>
+            <input type="checkbox" disabled={!backup.settings} checked={withSettings && !!backup.settings} onChange={(e) => setWithSettings(e.target.checked)} />
+            Also restore settings (endpoint, export format, tokenizer…){!backup.settings && " — not in this backup"}
+          </label>
+        </div>
+        <div className="rounded-lg border border-slate-200 p-2 text-xs">
+          {SUMMARY_ROWS.filter((r) => plan.summary[r.key].length).map((r) => (
+            <details key={r.key}>
+              <summary className={`cursor-pointer ${r.className}`}>{r.label}: {plan.summary[r.key].length}</summary>
+              <ul className="ml-4 list-disc text-slate-600">{plan.summary[r.key].map((n, i) => <li key={i} className="truncate">{n}</li>)}</ul>
+            </details>
+          ))}
+          {SUMMARY_ROWS.every((r) => !plan.summary[r.key].length) && <span className="text-slate-500">Nothing to restore.</span>}
+        </div>
+        {mode === "replace" && plan.summary.removed.length > 0 && (
+          <div className="flex items-center justify-between gap-2 rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+            <span className="flex items-center gap-1"><AlertTriangle size={14} className="shrink-0"/> Removed conversations can't be brought back with undo.</span>
+            <SmallButton onClick={onBackupFirst}>Back up current first</SmallButton>
+          </div>
+        )}
+        {empty && <p className="text-xs text-red-700">The backup has no conversations to replace this workspace with.</p>}
+      </div>
+    </Modal>
+  );
+}
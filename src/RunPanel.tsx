@@ -0,0 +1,41 @@
+import { Collapsible } from "./ui";
+import type { EndpointSettings } from "./api";
+
+const inputClass = "mt-1 w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+export function RunPanel({ endpoint, setEndpoint }: { endpoint: EndpointSettings; setEndpoint: (v: EndpointSettings) => void; }) {
+  const set = (patch: Partial<EndpointSettings>) => setEndpoint({ ...endpoint, ...patch });
+  return (
+    <Collapsible title={`Endpoint${endpoint.model ? ` (${endpoint.model})` : ""}`} defaultOpen={false}>
+      <div className="space-y-2">
+        <div>
+          <label className="text-xs text-slate-600">Base URL (OpenAI-compatible)</label>
+          <input className={inputClass} value={endpoint.baseUrl} onChange={(e) => set({ baseUrl: e.target.value })} placeholder="http://localhost:8000/v1" />
+        </div>
+        <div>
+          <label className="text-xs text-slate-600">Model</label>
+          <input className={inputClass} value={endpoint.model} onChange={(e) => set({ model: e.target.value })} placeholder="e.g., gpt-4o-mini" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-slate-600">Temperature</label>
+            <input type="number" step="0.1" min="0" max="2" className={inputClass} value={Number.isFinite(endpoint.temperature) ? endpoint.temperature : ""} onChange={(e) => set({ temperature: parseFloat(e.target.value) })} />
+          </div>
+          <div>
+            <label className="text-xs text-slate-600">Max tokens</label>
+            <input type="number" min="0" className={inputClass} value={endpoint.maxTokens} onChange={(e) => set({ maxTokens: parseInt(e.target.value, 10) || 0 })} />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={endpoint.stream} onChange={(e) => set({ stream: e.target.checked })} />
+          Stream responses
+        </label>
+        <div>
+          <label className="text-xs text-slate-600">API key</label>
+          <input type="password" autoComplete="off" className={inputClass} value={endpoint.apiKey} onChange={(e) => set({ apiKey: e.target.value })} placeholder="optional" />
+          <p className="mt-1 text-[11px] text-slate-500">Stored in this browser's local storage.</p>
+        </div>
+      </div>
+    </Collapsible>
+  );
+}
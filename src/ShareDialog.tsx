@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Copy, Loader2 } from "lucide-react";
+import { Modal, SmallButton } from "./ui";
+import { MAX_SHARE_URL_LENGTH, encodeShare, shareUrl } from "./share";
+import type { SharedConversation } from "./share";
+import { getMock } from "./mocks";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+// Builds the link for the conversation as it is in the editor
+export function ShareDialog({ conversation, onClose }: { conversation: SharedConversation; onClose: () => void }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    encodeShare(conversation).then((encoded) => setUrl(shareUrl(encoded)), (e) => setError(e.message));
+  }, [conversation]);
+
+  const tooLong = !!url && url.length > MAX_SHARE_URL_LENGTH;
+  const scripts = conversation.tools.filter((t) => getMock(t)?.kind === "script").length;
+  const copy = () => {
+    if (!url) return;
+    navigator.clipboard?.writeText(url).then(() => setCopied(true));
+  };
+
+  return (
+    <Modal
+      title="Share link"
+      onClose={onClose}
+      footer={
+        <>
+          {url && !tooLong && <SmallButton onClick={copy}><Copy size={14}/>{copied ? "Copied" : "Copy link"}</SmallButton>}
+          <SmallButton onClick={onClose}>Close</SmallButton>
+        </>
+      }
+    >
+      <div className="space-y-2 text-sm">
+        {!url && !error && <p className="flex items-center gap-1 text-xs text-slate-500"><Loader2 size={12} className="animate-spin"/> Compressing…</p>}
+        {error && <div className="rounded-lg bg-red-50 p-2 text-xs text-red-700">Could not create the link: {error}</div>}
+        {tooLong && (
+          <div className="rounded-lg bg-red-50 p-2 text-xs text-red-700">
+            <div className="mb-1 flex items-center gap-1 font-medium"><AlertTriangle size={14}/> Conversation too large to share as a link</div>
+            The link would be {url!.length.toLocaleString()} characters; links over {MAX_SHARE_URL_LENGTH.toLocaleString()} get cut off by chat apps and some browsers.
+            Shorten long messages or tool definitions, or send an exported JSON file instead.
+          </div>
+        )}
+        {url && !tooLong && (
+          <>
+            <input readOnly className={inputClass} value={url} onFocus={(e) => e.target.select()} />
+            <p className="text-xs text-slate-500">
+              Anyone with the link can view the conversation, including its name, tools and variable values, and save a copy. Nothing is uploaded: the conversation is stored in the link itself ({url.length.toLocaleString()} characters). Images given by URL are only fetched if the viewer chooses to load them.
+            </p>
+            {scripts > 0 && <p className="text-xs text-amber-700">{scripts === 1 ? "1 tool's script mock is" : `${scripts} tools' script mocks are`} left out: whoever opens the link would run the code. Template mocks are included.</p>}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,82 @@
+import { MessageSquare, Save, Wrench, X } from "lucide-react";
+import { RoleBadge, SmallButton } from "./ui";
+import { prettify } from "./utils";
+import { PartPreview } from "./PartsEditor";
+import type { SharedConversation } from "./share";
+
+const text = (v: unknown) => (typeof v === "string" ? v : v == null ? "" : JSON.stringify(v, null, 2));
+
+// Read-only page for a conversation opened from a share link
+export function SharedView({ conversation, error, onSave, onClose }: { conversation: SharedConversation | null; error: string | null; onSave: () => void; onClose: () => void; }) {
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <header className="sticky top-0 z-10 border-b border-slate-200 bg-white/80 backdrop-blur">
+        <div className="flex w-full items-center justify-between gap-2 px-3 py-2">
+          <div className="flex min-w-0 items-center gap-2">
+            <MessageSquare className="shrink-0" />
+            <span className="truncate text-base font-semibold">{conversation?.name || "Shared conversation"}</span>
+            <span className="shrink-0 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">read-only</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {conversation && (
+              <button
+                type="button"
+                onClick={onSave}
+                className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-2 py-1 text-xs text-white shadow-sm hover:bg-slate-800"
+              >
+                <Save size={14}/>Save to my workspace
+              </button>
+            )}
+            <SmallButton onClick={onClose} title="Go to my workspace without saving"><X size={14}/>Close</SmallButton>
+          </div>
+        </div>
+      </header>
+      <main className="mx-auto max-w-3xl space-y-3 px-3 py-3">
+        {error && <div className="rounded-2xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+        {conversation && conversation.tools.length > 0 && (
+          <div className="rounded-2xl border border-slate-200 bg-white p-3 text-sm shadow-sm">
+            <div className="mb-1 flex items-center gap-2 text-xs font-medium text-slate-700"><Wrench size={14}/> Tools</div>
+            <ul className="space-y-0.5 text-xs">
+              {conversation.tools.map((t, i) => (
+                <li key={i}><code className="font-mono">{t?.function?.name || "(unnamed)"}</code>{t?.function?.description && <span className="text-slate-500"> — {t.function.description}</span>}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {conversation?.responseFormat && (
+          <div className="rounded-2xl border border-slate-200 bg-white p-3 text-xs shadow-sm">
+            <div className="mb-1 font-medium text-slate-700">Response format</div>
+            <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono text-[11px] text-slate-600">{JSON.stringify(conversation.responseFormat.json_schema, null, 2)}</pre>
+          </div>
+        )}
+        {conversation && Object.keys(conversation.variables).length > 0 && (
+          <div className="rounded-2xl border border-slate-200 bg-white p-3 text-xs shadow-sm">
+            <div className="mb-1 font-medium text-slate-700">Variables</div>
+            {Object.entries(conversation.variables).map(([k, v]) => <div key={k}><code className="font-mono">{`{{${k}}}`}</code> = {String(v)}</div>)}
+          </div>
+        )}
+        {conversation?.messages.map((m, i) => (
+          <div key={i} className="rounded-2xl border border-slate-200 bg-white p-3 text-sm shadow-sm">
+            <div className="mb-2 flex items-center gap-2">
+              <RoleBadge role={m.role} />
+              {m.role === "tool" && m.tool_call_id && <span className="text-xs text-slate-500">tool_call_id: <code className="font-mono">{m.tool_call_id}</code></span>}
+            </div>
+            {Array.isArray(m.content) ? (
+              <div className="space-y-2">
+                {m.content.map((p, k) => (p?.type === "text" ? <pre key={k} className="whitespace-pre-wrap break-words font-sans">{p.text}</pre> : <PartPreview key={k} part={p} untrusted />))}
+              </div>
+            ) : (
+              text(m.content) && <pre className="whitespace-pre-wrap break-words font-sans">{m.role === "tool" ? prettify(text(m.content)) : text(m.content)}</pre>
+            )}
+            {m.tool_calls?.map((tc, k) => (
+              <div key={k} className="mt-2 rounded-lg border border-slate-200 bg-slate-50 p-2 text-xs">
+                <div className="font-medium"><code className="font-mono">{tc.function?.name}</code> <span className="text-slate-400">{tc.id}</span></div>
+                <pre className="mt-1 whitespace-pre-wrap break-words font-mono">{prettify(text(tc.function?.arguments))}</pre>
+              </div>
+            ))}
+          </div>
+        ))}
+      </main>
+    </div>
+  );
+}
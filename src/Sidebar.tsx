@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Copy, Download, Folder, FolderInput, FolderPlus, Search, Tag, Trash, X } from "lucide-react";
+import { Highlight, SmallButton } from "./ui";
+import { EMPTY_FILTERS, allFolders, allTags, buildFolderTree, countInFolder, isFiltering, normalizeFolder, searchConversation, snippet } from "./search";
+import type { FolderNode, SearchFilters } from "./search";
+import type { Conversation } from "./storage";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const byUpdated = (a: Conversation, b: Conversation) => new Date(b.updatedAt).valueOf() - new Date(a.updatedAt).valueOf();
+
+type RowProps = {
+  activeId: string;
+  selectedIds: string[];
+  query: string;
+  onOpen: (id: string, messageIndex?: number) => void;
+  onToggle: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+  onUpdate: (ids: string[], fn: (c: Conversation) => Conversation) => void;
+};
+
+function ConversationRow({ c, hits, showFolder, row }: { c: Conversation; hits?: { index: number; text: string }[]; showFolder?: boolean; row: RowProps }) {
+  return (
+    <div
+      className={`group relative rounded-xl border px-3 py-2 text-sm shadow-sm ${
+        c.id === row.activeId ? "border-emerald-500 bg-emerald-50" : "border-slate-200 bg-white"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <input
+          type="checkbox"
+          className="mr-2 shrink-0"
+          checked={row.selectedIds.includes(c.id)}
+          onChange={() => row.onToggle(c.id)}
+          title="Select for bulk actions"
+        />
+        <button onClick={() => row.onOpen(c.id)} className="min-w-0 flex-1 truncate text-left">
+          <div className="truncate font-medium"><Highlight text={c.name} query={row.query} /></div>
+          <div className="text-[11px] text-slate-500">
+            {new Date(c.updatedAt).toLocaleString()}
+            {showFolder && c.folder && <span className="ml-1">· {c.folder}</span>}
+          </div>
+        </button>
+        <div className="ml-2 hidden items-center gap-1 group-hover:flex">
+          <SmallButton onClick={() => row.onDuplicate(c.id)} title="Duplicate"><Copy size={14}/></SmallButton>
+          <SmallButton onClick={() => row.onDelete([c.id])} title="Delete"><Trash size={14}/></SmallButton>
+        </div>
+      </div>
+      {!!c.tags?.length && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {c.tags.map((t) => (
+            <span key={t} className="inline-flex items-center gap-0.5 rounded-full bg-slate-100 px-1.5 text-[11px] text-slate-600">
+              {t}
+              <button type="button" title={`Remove tag "${t}"`} onClick={() => row.onUpdate([c.id], (x) => ({ ...x, tags: (x.tags || []).filter((y) => y !== t) }))}><X size={10}/></button>
+            </span>
+          ))}
+        </div>
+      )}
+      {hits && hits.filter((h) => h.index >= 0).length > 0 && (
+        <div className="mt-1 space-y-0.5">
+          {hits.filter((h) => h.index >= 0).slice(0, 3).map((h) => (
+            <button key={h.index} type="button" onClick={() => row.onOpen(c.id, h.index)} className="block w-full truncate text-left text-[11px] text-slate-600 hover:text-slate-900">
+              <span className="text-slate-400">#{h.index + 1}</span> <Highlight text={snippet(h.text, row.query)} query={row.query} />
+            </button>
+          ))}
+          {hits.filter((h) => h.index >= 0).length > 3 && <div className="text-[11px] text-slate-400">+{hits.filter((h) => h.index >= 0).length - 3} more</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FolderItem({ node, row, depth }: { node: FolderNode; row: RowProps; depth: number }) {
+  const [open, setOpen] = useState(depth === 0);
+  return (
+    <div>
+      <button type="button" onClick={() => setOpen(!open)} className="flex w-full items-center gap-1 rounded-lg px-1 py-1 text-left text-xs font-medium text-slate-700 hover:bg-slate-50">
+        {open ? <ChevronDown size={14}/> : <ChevronRight size={14}/>}
+        <Folder size={14} className="text-slate-400"/>
+        <span className="truncate">{node.name}</span>
+        <span className="ml-auto text-[11px] font-normal text-slate-400">{countInFolder(node)}</span>
+      </button>
+      {open && (
+        <div className="ml-3 space-y-1 border-l border-slate-100 pl-2">
+          <FolderContents node={node} row={row} depth={depth + 1} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FolderContents({ node, row, depth }: { node: FolderNode; row: RowProps; depth: number }) {
+  return (
+    <>
+      {node.folders.map((f) => <FolderItem key={f.path} node={f} row={row} depth={depth} />)}
+      {node.conversations.slice().sort(byUpdated).map((c) => <ConversationRow key={c.id} c={c} row={row} />)}
+    </>
+  );
+}
+
+// Inline "apply to selection" form used by Move and Tag
+function BulkInput({ placeholder, options, actions, onCancel }: { placeholder: string; options: string[]; actions: { label: string; run: (value: string) => void }[]; onCancel: () => void; }) {
+  const [value, setValue] = useState("");
+  return (
+    <div className="mt-1 flex items-center gap-1">
+      <input list="bulk-options" autoFocus className={inputClass} value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder} onKeyDown={(e) => e.key === "Escape" && onCancel()} />
+      <datalist id="bulk-options">{options.map((o) => <option key={o} value={o} />)}</datalist>
+      {actions.map((a) => <SmallButton key={a.label} onClick={() => a.run(value)}>{a.label}</SmallButton>)}
+      <button type="button" onClick={onCancel} title="Cancel"><X size={14}/></button>
+    </div>
+  );
+}
+
+export function Sidebar({ conversations, activeId, selectedIds, setSelectedIds, filters, setFilters, onOpen, onNew, onDuplicate, onDelete, onUpdate, onExportSelected }: { conversations: Conversation[]; activeId: string; selectedIds: string[]; setSelectedIds: (ids: string[]) => void; filters: SearchFilters; setFilters: (f: SearchFilters) => void; onOpen: (id: string, messageIndex?: number) => void; onNew: () => void; onDuplicate: (id: string) => void; onDelete: (ids: string[]) => void; onUpdate: (ids: string[], fn: (c: Conversation) => Conversation) => void; onExportSelected: () => void; }) {
+  const [bulk, setBulk] = useState<"move" | "tag" | null>(null);
+  const filtering = isFiltering(filters);
+  const tags = useMemo(() => allTags(conversations), [conversations]);
+  const folders = useMemo(() => allFolders(conversations), [conversations]);
+  const results = useMemo(
+    () => (filtering ? conversations.map((c) => ({ c, hits: searchConversation(c, filters) })).filter((r) => r.hits).sort((a, b) => byUpdated(a.c, b.c)) : []),
+    [conversations, filters, filtering],
+  );
+  const tree = useMemo(() => buildFolderTree(conversations), [conversations]);
+  const set = (patch: Partial<SearchFilters>) => setFilters({ ...filters, ...patch });
+  const toggle = (id: string) => setSelectedIds(selectedIds.includes(id) ? selectedIds.filter((x) => x !== id) : [...selectedIds, id]);
+  const row: RowProps = { activeId, selectedIds, query: filters.query, onOpen, onToggle: toggle, onDuplicate, onDelete, onUpdate };
+
+  const moveTo = (path: string) => {
+    onUpdate(selectedIds, (c) => ({ ...c, folder: normalizeFolder(path) }));
+    setBulk(null);
+  };
+  const tagSelected = (tag: string, add: boolean) => {
+    const t = tag.trim();
+    if (!t) return;
+    onUpdate(selectedIds, (c) => ({ ...c, tags: add ? [...new Set([...(c.tags || []), t])] : (c.tags || []).filter((x) => x !== t) }));
+    setBulk(null);
+  };
+
+  return (
+    <aside className="md:col-span-3 rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm font-semibold">Conversations</div>
+        <div className="flex items-center gap-2">
+          <SmallButton onClick={onNew} title="New conversation"><FolderPlus size={14}/>New</SmallButton>
+        </div>
+      </div>
+      <div className="mb-2 space-y-1">
+        <div className="relative">
+          <Search size={14} className="pointer-events-none absolute left-2 top-2 text-slate-400"/>
+          <input className={`${inputClass} pl-7`} value={filters.query} onChange={(e) => set({ query: e.target.value })} placeholder="Search names, messages, tool calls…" />
+        </div>
+        <div className="flex items-center gap-1">
+          <select className={inputClass} value={filters.role} onChange={(e) => set({ role: e.target.value as SearchFilters["role"] })} title="Only search messages with this role">
+            <option value="">Any role</option>
+            <option value="system">System</option>
+            <option value="user">User</option>
+            <option value="assistant">Assistant</option>
+            <option value="tool">Tool</option>
+          </select>
+          <select className={inputClass} value={filters.tag} onChange={(e) => set({ tag: e.target.value })} title="Only conversations with this tag">
+            <option value="">All tags</option>
+            {tags.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between text-xs text-slate-600">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={filters.toolCalls} onChange={(e) => set({ toolCalls: e.target.checked })} />
+            Has tool calls
+          </label>
+          {filtering && <button type="button" className="hover:text-slate-900" onClick={() => setFilters(EMPTY_FILTERS)}>Clear filters</button>}
+        </div>
+      </div>
+      {selectedIds.length > 0 && (
+        <div className="mb-2 rounded-xl bg-slate-100 px-2 py-1 text-xs">
+          <div className="flex items-center justify-between">
+            <span>{selectedIds.length} selected</span>
+            <div className="flex items-center gap-1">
+              <SmallButton onClick={onExportSelected} title="Export selected as JSONL (OpenAI fine-tuning format)"><Download size={14}/>JSONL</SmallButton>
+              <SmallButton onClick={() => setBulk(bulk === "move" ? null : "move")} title="Move selected to a folder"><FolderInput size={14}/></SmallButton>
+              <SmallButton onClick={() => setBulk(bulk === "tag" ? null : "tag")} title="Add or remove a tag on selected"><Tag size={14}/></SmallButton>
+              <SmallButton onClick={() => onDelete(selectedIds)} title="Delete selected (undoable)"><Trash size={14}/></SmallButton>
+            </div>
+          </div>
+          <div className="mt-1 flex items-center gap-1">
+            <SmallButton onClick={() => setSelectedIds((filtering ? results.map((r) => r.c) : conversations).map((c) => c.id))} title={filtering ? "Select all matching conversations" : "Select all conversations"}>All</SmallButton>
+            <SmallButton onClick={() => setSelectedIds([])} title="Clear selection">Clear</SmallButton>
+          </div>
+          {bulk === "move" && (
+            <BulkInput placeholder="folder/subfolder (empty = top level)" options={folders} actions={[{ label: "Move", run: moveTo }]} onCancel={() => setBulk(null)} />
+          )}
+          {bulk === "tag" && (
+            <BulkInput placeholder="tag" options={tags} actions={[{ label: "Add", run: (t) => tagSelected(t, true) }, { label: "Remove", run: (t) => tagSelected(t, false) }]} onCancel={() => setBulk(null)} />
+          )}
+        </div>
+      )}
+      <div className="space-y-1">
+        {filtering ? (
+          <>
+            <div className="text-[11px] text-slate-500">{results.length} of {conversations.length} conversations</div>
+            {results.map(({ c, hits }) => <ConversationRow key={c.id} c={c} hits={hits!} showFolder row={row} />)}
+          </>
+        ) : (
+          <FolderContents node={tree} row={row} depth={0} />
+        )}
+      </div>
+    </aside>
+  );
+}
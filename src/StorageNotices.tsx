@@ -0,0 +1,42 @@
+import { AlertTriangle, Database, X } from "lucide-react";
+import { SmallButton } from "./ui";
+import type { StorageError } from "./storage";
+
+type NoticeAction = { label: string; title?: string; onClick: () => void };
+
+// Banner shown above the editor for recoverable storage problems
+export function StorageNotice({ message, actions, onDismiss }: { message: string; actions: NoticeAction[]; onDismiss?: () => void; }) {
+  return (
+    <div className="mx-3 mt-3 flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+      <span className="flex items-center gap-2"><AlertTriangle size={16} className="shrink-0"/>{message}</span>
+      <div className="flex items-center gap-1">
+        {actions.map((a) => <SmallButton key={a.label} onClick={a.onClick} title={a.title}>{a.label}</SmallButton>)}
+        {onDismiss && <button type="button" onClick={onDismiss} title="Dismiss" className="ml-1"><X size={14}/></button>}
+      </div>
+    </div>
+  );
+}
+
+// Full-page screen when the workspace cannot be loaded at all
+export function StorageErrorScreen({ error, onRetry, onDownloadRaw, onDiscard, onContinueInMemory }: { error: StorageError; onRetry: () => void; onDownloadRaw?: () => void; onDiscard?: () => void; onContinueInMemory?: () => void; }) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 p-4 text-slate-900">
+      <div className="w-full max-w-lg space-y-3 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex items-center gap-2 text-base font-semibold"><Database size={18}/> Your conversations could not be loaded</div>
+        <p className="text-sm text-slate-600">{error.message}</p>
+        {error.kind === "corrupt" && (
+          <p className="text-xs text-slate-500">Download the raw data first if you want to repair it by hand. Discarding removes it from this browser.</p>
+        )}
+        {error.kind === "unavailable" && (
+          <p className="text-xs text-slate-500">This can happen in private windows or when site storage is disabled. You can keep working, but nothing is saved when the tab closes.</p>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <SmallButton onClick={onRetry}>Retry</SmallButton>
+          {onDownloadRaw && <SmallButton onClick={onDownloadRaw}>Download raw data</SmallButton>}
+          {onDiscard && <SmallButton onClick={onDiscard}>Discard and start fresh</SmallButton>}
+          {onContinueInMemory && <SmallButton onClick={onContinueInMemory}>Continue without saving</SmallButton>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo, useState } from "react";
+import { Copy, Download } from "lucide-react";
+import { Modal, SmallButton, Textarea } from "./ui";
+import { BUILTIN_TEMPLATES, CUSTOM_TEMPLATE_ID, parseTokenizerConfig, renderChatTemplate, specialTokenPattern } from "./chatTemplates";
+import { download } from "./utils";
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+const WHITESPACE_MARKS: Record<string, string> = { " ": "·", "\t": "→", "\n": "↵" };
+
+function Whitespace({ text, visible }: { text: string; visible: boolean }) {
+  if (!visible) return <>{text}</>;
+  return (
+    <>
+      {text.split(/([ \t\n])/).map((part, i) =>
+        WHITESPACE_MARKS[part] ? (
+          <span key={i} className="text-slate-300">{WHITESPACE_MARKS[part]}{part === "\n" ? "\n" : ""}</span>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+export function TemplatePreview({ messages, tools, templateId, setTemplateId, customTemplate, setCustomTemplate, fileName, onClose }: { messages: Message[]; tools: Tool[] | null; templateId: string; setTemplateId: (id: string) => void; customTemplate: string; setCustomTemplate: (text: string) => void; fileName: string; onClose: () => void; }) {
+  const [addGenerationPrompt, setAddGenerationPrompt] = useState(messages[messages.length - 1]?.role !== "assistant");
+  const [showWhitespace, setShowWhitespace] = useState(true);
+
+  const result = useMemo(() => {
+    try {
+      const tpl = templateId === CUSTOM_TEMPLATE_ID
+        ? parseTokenizerConfig(customTemplate, !!tools?.length)
+        : BUILTIN_TEMPLATES.find((t) => t.id === templateId) || BUILTIN_TEMPLATES[0];
+      return { text: renderChatTemplate(tpl, messages, tools, addGenerationPrompt), pattern: specialTokenPattern(tpl), error: null as string | null };
+    } catch (e) {
+      return { text: "", pattern: null, error: (e as Error).message };
+    }
+  }, [templateId, customTemplate, messages, tools, addGenerationPrompt]);
+
+  // special tokens are highlighted; the text between them shows its whitespace
+  const segments = useMemo(() => {
+    if (!result.pattern) return [];
+    const out: { text: string; special: boolean }[] = [];
+    let last = 0;
+    for (const m of result.text.matchAll(result.pattern)) {
+      if (m.index > last) out.push({ text: result.text.slice(last, m.index), special: false });
+      out.push({ text: m[0], special: true });
+      last = m.index + m[0].length;
+    }
+    if (last < result.text.length) out.push({ text: result.text.slice(last), special: false });
+    return out;
+  }, [result]);
+
+  return (
+    <Modal
+      title="Chat template preview"
+      wide
+      onClose={onClose}
+      footer={
+        <>
+          <span className="mr-auto text-xs text-slate-500">{result.text.length.toLocaleString()} characters</span>
+          <SmallButton onClick={() => navigator.clipboard?.writeText(result.text)} title="Copy the rendered string"><Copy size={14}/>Copy</SmallButton>
+          <SmallButton onClick={() => download(`${fileName}.prompt.txt`, result.text)} title="Download the rendered string"><Download size={14}/>Download</SmallButton>
+          <SmallButton onClick={onClose}>Close</SmallButton>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <select className={`${inputClass} w-auto`} value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+            {BUILTIN_TEMPLATES.map((t) => <option key={t.id} value={t.id}>{t.label}</option>)}
+            <option value={CUSTOM_TEMPLATE_ID}>Custom (tokenizer_config.json)</option>
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            <input type="checkbox" checked={addGenerationPrompt} onChange={(e) => setAddGenerationPrompt(e.target.checked)} />
+            Add generation prompt
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            <input type="checkbox" checked={showWhitespace} onChange={(e) => setShowWhitespace(e.target.checked)} />
+            Show whitespace
+          </label>
+        </div>
+        {templateId === CUSTOM_TEMPLATE_ID && (
+          <Textarea rows={5} value={customTemplate} onChange={setCustomTemplate} placeholder='Paste tokenizer_config.json (uses its "chat_template", "bos_token" and "eos_token") or a bare Jinja template' />
+        )}
+        {result.error ? (
+          <div className="rounded-lg bg-red-50 p-2 text-xs text-red-700">{result.error}</div>
+        ) : (
+          <pre className="max-h-[55vh] overflow-auto whitespace-pre-wrap break-words rounded-lg border border-slate-200 bg-slate-50 p-3 font-mono text-xs">
+            {segments.map((s, i) =>
+              s.special ? (
+                <span key={i} className="rounded bg-violet-100 text-violet-700">{s.text}</span>
+              ) : (
+                <Whitespace key={i} text={s.text} visible={showWhitespace} />
+              ),
+            )}
+          </pre>
+        )}
+      </div>
+    </Modal>
+  );
+}
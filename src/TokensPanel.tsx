@@ -0,0 +1,63 @@
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Collapsible } from "./ui";
+import { TOKENIZERS, formatTokens } from "./tokens";
+import type { TokenBreakdown, TokenizerId } from "./tokens";
+
+const inputClass = "mt-1 w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+// Header badge: conversation total against the context limit
+export function TokenTotal({ breakdown, limit, error }: { breakdown: TokenBreakdown | null; limit: number; error?: string | null }) {
+  if (!breakdown && error) return <span className="inline-flex items-center gap-1 text-xs text-amber-700" title={error}><AlertTriangle size={12}/>tokens</span>;
+  if (!breakdown) return <span className="inline-flex items-center gap-1 text-xs text-slate-400"><Loader2 size={12} className="animate-spin"/>tokens</span>;
+  const over = limit > 0 && breakdown.total > limit;
+  return (
+    <span
+      className={`rounded-lg px-2 py-1 text-xs tabular-nums ${over ? "bg-red-50 font-medium text-red-700" : "text-slate-500"}`}
+      title={`${breakdown.total.toLocaleString()} tokens including tool definitions and chat-template overhead${limit ? ` (limit ${limit.toLocaleString()})` : ""}`}
+    >
+      {formatTokens(breakdown.total)}{limit > 0 && ` / ${formatTokens(limit)}`} tok
+    </span>
+  );
+}
+
+export function TokensPanel({ breakdown, error, tokenizer, setTokenizer, limit, setLimit }: { breakdown: TokenBreakdown | null; error?: string | null; tokenizer: TokenizerId; setTokenizer: (id: TokenizerId) => void; limit: number; setLimit: (n: number) => void; }) {
+  const over = !!breakdown && limit > 0 && breakdown.total > limit;
+  return (
+    <Collapsible title={`Tokens${breakdown ? ` (${formatTokens(breakdown.total)})` : ""}`} defaultOpen={false}>
+      <div className="space-y-2">
+        {over && (
+          <div className="flex items-center gap-1 rounded-lg bg-red-50 p-2 text-xs text-red-700">
+            <AlertTriangle size={14}/> {(breakdown.total - limit).toLocaleString()} tokens over the context limit
+          </div>
+        )}
+        <div>
+          <label className="text-xs text-slate-600">Tokenizer</label>
+          <select className={inputClass} value={tokenizer} onChange={(e) => setTokenizer(e.target.value as TokenizerId)}>
+            {TOKENIZERS.map((t) => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-600">Context limit (0 = none)</label>
+          <input type="number" min="0" step="1024" className={inputClass} value={limit} onChange={(e) => setLimit(Math.max(0, parseInt(e.target.value, 10) || 0))} />
+        </div>
+        {breakdown ? (
+          <dl className="grid grid-cols-2 gap-y-0.5 text-xs tabular-nums">
+            <dt className="text-slate-500">Message text</dt>
+            <dd className="text-right">{breakdown.messages.toLocaleString()}</dd>
+            <dt className="text-slate-500">Tool definitions</dt>
+            <dd className="text-right">{breakdown.tools.toLocaleString()}</dd>
+            <dt className="text-slate-500">Template overhead</dt>
+            <dd className="text-right">{breakdown.overhead.toLocaleString()}</dd>
+            <dt className="font-medium">Total</dt>
+            <dd className="text-right font-medium">{breakdown.total.toLocaleString()}</dd>
+          </dl>
+        ) : error ? (
+          <p className="flex items-start gap-1 text-xs text-amber-700"><AlertTriangle size={12} className="mt-0.5 shrink-0"/> {error}. Check the connection and reload the page.</p>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-slate-500"><Loader2 size={12} className="animate-spin"/> Loading tokenizer…</p>
+        )}
+        <p className="text-[11px] text-slate-500">Counted offline. Tool definitions and template overhead follow OpenAI's accounting and are estimates for other models.</p>
+      </div>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Trash2, Wrench, AlertTriangle } from "lucide-react";
+import { Collapsible, Textarea, SmallButton, JSONField } from "./ui";
+import { SCHEMA_TYPES, parseTools, validateTools, emptyTool, emptyParameters } from "./toolSchema";
+import { MockEditor } from "./MockEditor";
+import { getMock } from "./mocks";
+import type { JsonSchema, Tool } from "./toolSchema";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+// Text input that only reports its value on blur/Enter. Used for keys (tool and
+// property names) so that renaming doesn't re-key the list on every keystroke.
+// onCommit returns false to refuse the value; the draft then goes back to it
+function CommitInput({ value, onCommit, placeholder, invalid }: { value: string; onCommit: (v: string) => boolean | void; placeholder?: string; invalid?: boolean; }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => {
+    if (draft !== value && onCommit(draft) === false) setDraft(value);
+  };
+  return (
+    <input
+      className={`${inputClass} ${invalid ? "border-red-400" : ""}`}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+    />
+  );
+}
+
+const enumToText = (values: unknown[] | undefined) => (Array.isArray(values) ? values.map((v) => String(v)).join(", ") : "");
+
+const textToEnum = (text: string, type: string) => {
+  const parts = text.split(",").map((s) => s.trim()).filter(Boolean);
+  if (type === "number" || type === "integer") return parts.map((p) => (isNaN(Number(p)) ? p : Number(p)));
+  return parts;
+};
+
+// Reset keywords that no longer apply when a property's type changes.
+const retype = (prop: JsonSchema, type: string) => {
+  const { enum: _enum, properties: _props, required: _req, items: _items, ...rest } = prop;
+  const next: JsonSchema = { ...rest, type };
+  if (type === "object") Object.assign(next, emptyParameters());
+  if (type === "array") next.items = { type: "string" };
+  if (_enum && (type === "string" || type === "number" || type === "integer")) next.enum = textToEnum(enumToText(_enum), type);
+  return next;
+};
+
+function PropertyRow({ name, prop, required, depth, onRename, onChange, onToggleRequired, onRemove }: { name: string; prop: JsonSchema; required: boolean; depth: number; onRename: (v: string) => boolean | void; onChange: (v: JsonSchema) => void; onToggleRequired: () => void; onRemove: () => void; }) {
+  const type = Array.isArray(prop?.type) ? prop.type[0] : prop?.type || "string";
+  const canEnum = type === "string" || type === "number" || type === "integer";
+  const [enumText, setEnumText] = useState(enumToText(prop?.enum));
+  useEffect(() => setEnumText(enumToText(prop?.enum)), [prop?.enum]);
+
+  const commitEnum = () => {
+    const values = textToEnum(enumText, type);
+    const { enum: _old, ...rest } = prop;
+    onChange(values.length ? { ...rest, enum: values } : rest);
+  };
+
+  const itemType = prop?.items?.type || "string";
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-2">
+      <div className="grid grid-cols-12 items-center gap-2">
+        <div className="col-span-5">
+          <CommitInput value={name} onCommit={onRename} placeholder="property name" />
+        </div>
+        <div className="col-span-4">
+          <select className={inputClass} value={type} onChange={(e) => onChange(retype(prop, e.target.value))}>
+            {SCHEMA_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <label className="col-span-2 flex items-center gap-1 text-[11px] text-slate-600">
+          <input type="checkbox" checked={required} onChange={onToggleRequired} /> req
+        </label>
+        <button type="button" onClick={onRemove} title="Remove property" className="col-span-1 text-slate-500 hover:text-red-600"><Trash2 size={14}/></button>
+      </div>
+      <input
+        className={`${inputClass} mt-1`}
+        value={prop?.description || ""}
+        onChange={(e) => onChange({ ...prop, description: e.target.value || undefined })}
+        placeholder="description (optional)"
+      />
+      {canEnum && (
+        <input
+          className={`${inputClass} mt-1`}
+          value={enumText}
+          onChange={(e) => setEnumText(e.target.value)}
+          onBlur={commitEnum}
+          onKeyDown={(e) => e.key === "Enter" && commitEnum()}
+          placeholder="enum values, comma separated (optional)"
+        />
+      )}
+      {type === "object" && (
+        <div className="mt-2 border-l-2 border-slate-200 pl-2">
+          <PropertiesEditor schema={prop} onChange={onChange} depth={depth + 1} />
+        </div>
+      )}
+      {type === "array" && (
+        <div className="mt-2 border-l-2 border-slate-200 pl-2">
+          <label className="text-[11px] text-slate-600">items type</label>
+          <select className={inputClass} value={itemType} onChange={(e) => onChange({ ...prop, items: retype(prop.items || {}, e.target.value) })}>
+            {SCHEMA_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+          {itemType === "object" && (
+            <div className="mt-2">
+              <PropertiesEditor schema={prop.items} onChange={(items) => onChange({ ...prop, items })} depth={depth + 1} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PropertiesEditor({ schema, onChange, depth = 0 }: { schema: JsonSchema | undefined; onChange: (v: JsonSchema) => void; depth?: number; }) {
+  const properties = schema?.properties && typeof schema.properties === "object" ? schema.properties : {};
+  const required: string[] = Array.isArray(schema?.required) ? schema.required : [];
+  const entries = Object.entries(properties);
+
+  const setProps = (nextEntries: [string, JsonSchema][], nextRequired = required) => {
+    onChange({ ...schema, properties: Object.fromEntries(nextEntries), required: nextRequired });
+  };
+  const addProperty = () => {
+    let n = entries.length + 1;
+    while (Object.hasOwn(properties, `param${n}`)) n++;
+    setProps([...entries, [`param${n}`, { type: "string" }]]);
+  };
+  const rename = (idx: number, next: string) => {
+    const prev = entries[idx][0];
+    if (!next || Object.hasOwn(properties, next)) return false;
+    const copy = [...entries];
+    copy[idx] = [next, copy[idx][1]];
+    setProps(copy, required.map((r) => (r === prev ? next : r)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.length === 0 && <p className="text-[11px] text-slate-500">No properties.</p>}
+      {entries.map(([key, prop], idx) => (
+        <PropertyRow
+          key={idx}
+          name={key}
+          prop={prop}
+          depth={depth}
+          required={required.includes(key)}
+          onRename={(v) => rename(idx, v)}
+          onChange={(v) => setProps(entries.map((e, i) => (i === idx ? [key, v] : e)) as [string, JsonSchema][])}
+          onToggleRequired={() => setProps(entries, required.includes(key) ? required.filter((r) => r !== key) : [...required, key])}
+          onRemove={() => setProps(entries.filter((_, i) => i !== idx), required.filter((r) => r !== key))}
+        />
+      ))}
+      <SmallButton onClick={addProperty} title="Add property"><Plus size={14}/>Property</SmallButton>
+    </div>
+  );
+}
+
+function ToolEditor({ tool, issues, onChange, onRemove }: { tool: Tool; issues: { path: string; message: string }[]; onChange: (v: Tool) => void; onRemove: () => void; }) {
+  const fn: Partial<Tool["function"]> = tool?.function || {};
+  const setFn = (patch: Partial<Tool["function"]>) => onChange({ ...tool, function: { ...fn, ...patch } as Tool["function"] });
+  return (
+    <Collapsible title={`${fn.name || "(unnamed)"}${getMock(tool) ? " · mock" : ""}${issues.length ? ` — ${issues.length} issue${issues.length > 1 ? "s" : ""}` : ""}`} defaultOpen={false} previewText={fn.description}>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex-1">
+            <label className="text-xs text-slate-600">Function name</label>
+            <CommitInput value={fn.name || ""} onCommit={(name) => setFn({ name })} placeholder="e.g., get_weather" invalid={issues.some((i) => i.path === "function.name")} />
+          </div>
+          <SmallButton onClick={onRemove} title="Remove this tool"><Trash2 size={14}/>Remove</SmallButton>
+        </div>
+        <div>
+          <label className="text-xs text-slate-600">Description</label>
+          <Textarea rows={2} value={fn.description || ""} onChange={(description) => setFn({ description })} placeholder="What the function does" />
+        </div>
+        <div>
+          <label className="text-xs text-slate-600">Parameters</label>
+          <PropertiesEditor schema={fn.parameters || emptyParameters()} onChange={(parameters) => setFn({ parameters })} />
+        </div>
+        <MockEditor tool={tool} onChange={onChange} />
+        {issues.length > 0 && (
+          <ul className="space-y-0.5 text-xs text-red-600">
+            {issues.map((i, k) => <li key={k}>{i.path ? <code className="font-mono">{i.path}</code> : null} {i.message}</li>)}
+          </ul>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
+
+export function ToolsPanel({ value, onChange }: { value: string; onChange: (v: string) => void; }) {
+  const [mode, setMode] = useState<"visual" | "json">("visual");
+  const { tools, error } = useMemo(() => parseTools(value), [value]);
+  const issues = useMemo(() => (tools ? validateTools(tools) : []), [tools]);
+  const issueCount = issues.reduce((n, l) => n + l.length, 0);
+
+  const setTools = (next: Tool[]) => onChange(JSON.stringify(next, null, 2));
+  const addTool = () => {
+    if (!tools) return;
+    setTools([...tools, emptyTool(`function_${tools.length + 1}`)]);
+  };
+
+  return (
+    <Collapsible title={`Tools (${tools ? tools.length : "?"})`} defaultOpen={true}>
+      <div className="mb-2 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium"><Wrench size={16}/> Functions</div>
+        <div className="flex items-center gap-1">
+          <SmallButton onClick={() => setMode(mode === "visual" ? "json" : "visual")} title="Toggle raw JSON">{mode === "visual" ? "JSON" : "Visual"}</SmallButton>
+          <SmallButton onClick={addTool} title="Add tool"><Plus size={14}/>Add</SmallButton>
+        </div>
+      </div>
+      {error && (
+        <div className="mb-2 flex items-start gap-1 rounded-lg bg-red-50 p-2 text-xs text-red-700">
+          <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+          <span>{error}. Tools are not saved until this is fixed.</span>
+        </div>
+      )}
+      {!error && issueCount > 0 && (
+        <div className="mb-2 flex items-center gap-1 text-xs text-amber-700">
+          <AlertTriangle size={14}/> {issueCount} schema issue{issueCount > 1 ? "s" : ""}
+        </div>
+      )}
+      {mode === "json" || !tools ? (
+        <JSONField label="Tools (JSON array)" value={value} onChange={onChange} placeholder="[]" />
+      ) : (
+        <div className="space-y-2">
+          {tools.length === 0 && <p className="text-xs text-slate-500">No tools defined. Click Add to create one.</p>}
+          {tools.map((tool, idx) => (
+            <ToolEditor
+              key={idx}
+              tool={tool}
+              issues={issues[idx] || []}
+              onChange={(t) => setTools(tools.map((x, i) => (i === idx ? t : x)))}
+              onRemove={() => setTools(tools.filter((_, i) => i !== idx))}
+            />
+          ))}
+        </div>
+      )}
+    </Collapsible>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, Braces, Download, FolderPlus, Trash2 } from "lucide-react";
+import { Collapsible, Textarea, SmallButton } from "./ui";
+import { checkBindings, parseBindingsTable } from "./templates";
+import type { Bindings, VariableUse } from "./templates";
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-black";
+
+function BatchSection({ uses, onCreate, onDownload }: { uses: VariableUse[]; onCreate: (rows: Bindings[]) => void; onDownload: (rows: Bindings[]) => void; }) {
+  const [text, setText] = useState("");
+  const parsed = useMemo(() => {
+    try {
+      return { rows: parseBindingsTable(text), error: null as string | null };
+    } catch (e) {
+      return { rows: [] as Bindings[], error: (e as Error).message };
+    }
+  }, [text]);
+  const columns = parsed.rows.length ? Object.keys(parsed.rows[0]) : [];
+  const missing = uses.map((u) => u.name).filter((n) => !columns.includes(n));
+  const unused = columns.filter((c) => !uses.some((u) => u.name === c));
+
+  return (
+    <Collapsible title="Batch" defaultOpen={false}>
+      <div className="space-y-2" data-history="off">
+        <p className="text-[11px] text-slate-500">Paste a CSV table with a header row or a JSON array of objects. Each row renders one conversation.</p>
+        <label className="inline-flex cursor-pointer items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50">
+          Load file
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={async (e) => {
+              const f = e.target.files?.[0];
+              if (f) setText(await f.text());
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <Textarea rows={4} value={text} onChange={setText} placeholder={"city,unit\nParis,celsius\nBoston,fahrenheit"} />
+        {parsed.error && <div className="text-xs text-red-600">{parsed.error}</div>}
+        {parsed.rows.length > 0 && (
+          <div className="space-y-1 text-xs">
+            <div className="text-slate-600">{parsed.rows.length} row{parsed.rows.length === 1 ? "" : "s"} · columns: {columns.join(", ")}</div>
+            {missing.length > 0 && <div className="text-red-600">Missing columns: {missing.join(", ")}</div>}
+            {unused.length > 0 && <div className="text-amber-700">Unused columns: {unused.join(", ")}</div>}
+            <div className="flex items-center gap-1 pt-1">
+              <SmallButton onClick={() => onCreate(parsed.rows)} title="Create one conversation per row"><FolderPlus size={14}/>Conversations</SmallButton>
+              <SmallButton onClick={() => onDownload(parsed.rows)} title="Download one JSONL line per row"><Download size={14}/>JSONL</SmallButton>
+            </div>
+          </div>
+        )}
+      </div>
+    </Collapsible>
+  );
+}
+
+export function VariablesPanel({ uses, bindings, setBindings, onBatchCreate, onBatchDownload }: { uses: VariableUse[]; bindings: Bindings; setBindings: (b: Bindings) => void; onBatchCreate: (rows: Bindings[]) => void; onBatchDownload: (rows: Bindings[]) => void; }) {
+  const { missing, unused } = checkBindings(uses, bindings);
+  const setValue = (name: string, value: string) => {
+    const next = { ...bindings };
+    if (value === "") delete next[name];
+    else next[name] = value;
+    setBindings(next);
+  };
+  const removeBinding = (name: string) => {
+    const next = { ...bindings };
+    delete next[name];
+    setBindings(next);
+  };
+
+  return (
+    <Collapsible title={`Variables (${uses.length})${missing.length ? ` — ${missing.length} missing` : ""}`} defaultOpen={uses.length > 0}>
+      {uses.length === 0 && unused.length === 0 ? (
+        <p className="flex items-center gap-1 text-xs text-slate-500"><Braces size={14}/> Use {"{{name}}"} in message content or tool-call arguments to add variables.</p>
+      ) : (
+        <div className="space-y-2">
+          {uses.map((u) => (
+            <div key={u.name}>
+              <div className="flex items-center justify-between text-xs">
+                <code className="font-mono text-slate-700">{`{{${u.name}}}`}</code>
+                <span className="text-[11px] text-slate-500">
+                  {missing.includes(u.name) && <span className="mr-1 text-red-600">missing</span>}
+                  in #{u.messages.map((i) => i + 1).join(", #")}
+                </span>
+              </div>
+              <input className={`${inputClass} mt-1 ${missing.includes(u.name) ? "border-red-300" : ""}`} value={bindings[u.name] ?? ""} onChange={(e) => setValue(u.name, e.target.value)} placeholder="value" />
+            </div>
+          ))}
+          {unused.length > 0 && (
+            <div className="rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+              <div className="mb-1 flex items-center gap-1 font-medium"><AlertTriangle size={14}/> Unused bindings</div>
+              {unused.map((name) => (
+                <div key={name} className="flex items-center justify-between">
+                  <code className="font-mono">{name}</code>
+                  <button type="button" onClick={() => removeBinding(name)} title="Remove binding" className="hover:text-red-600"><Trash2 size={12}/></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="mt-3">
+        <BatchSection uses={uses} onCreate={onBatchCreate} onDownload={onBatchDownload} />
+      </div>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { accumulateDelta, readSSE } from "./api";
+
+// Deltas as OpenAI-compatible servers stream them, and SSE bodies cut at
+// awkward places.
+
+const sseBody = (...chunks: string[]) =>
+  new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach((c) => controller.enqueue(new TextEncoder().encode(c)));
+      controller.close();
+    },
+  }));
+
+const collect = async (res: Response) => {
+  const events: { a: number }[] = [];
+  for await (const event of readSSE<{ a: number }>(res)) events.push(event);
+  return events;
+};
+
+describe("accumulateDelta", () => {
+  // two tool calls, arguments split across chunks and interleaved
+  const deltas = [
+    { role: "assistant", content: "Checking" },
+    { content: " both." },
+    { tool_calls: [{ index: 0, id: "call_a", type: "function", function: { name: "get_weather", arguments: "" } }] },
+    { tool_calls: [{ index: 0, function: { arguments: "{\"location\": \"Pa" } }] },
+    { tool_calls: [{ index: 1, id: "call_b", type: "function", function: { name: "get_", arguments: "{\"loc" } }] },
+    { tool_calls: [{ index: 1, function: { name: "weather", arguments: "ation\": \"Oslo\"}" } }, { index: 0, function: { arguments: "ris\"}" } }] },
+  ];
+  const acc = deltas.reduce(accumulateDelta, { role: "assistant", content: null });
+
+  it("accumulates content and tool calls", () => {
+    expect(acc.content).toBe("Checking both.");
+    expect(acc.tool_calls).toHaveLength(2);
+  });
+
+  it("joins split arguments per call index", () => {
+    expect(acc.tool_calls?.[0]).toMatchObject({ id: "call_a", function: { arguments: "{\"location\": \"Paris\"}" } });
+  });
+
+  it("keeps each interleaved call's own name and arguments", () => {
+    expect(acc.tool_calls?.[1]).toMatchObject({ id: "call_b", function: { name: "get_weather", arguments: "{\"location\": \"Oslo\"}" } });
+  });
+
+  it("appends calls without an index", () => {
+    const deltas = [{ tool_calls: [{ id: "x", function: { name: "f", arguments: "{}" } }] }, { tool_calls: [{ id: "y", function: { name: "g", arguments: "{}" } }] }];
+    expect(deltas.reduce(accumulateDelta, {}).tool_calls?.map((c) => c.id)).toEqual(["x", "y"]);
+  });
+});
+
+describe("readSSE", () => {
+  it("parses events split across chunks", async () => {
+    const events = await collect(sseBody("data: {\"a\"", ": 1}\n\ndata: {\"a\": 2}\r\n", "\n: keep-alive\n\n"));
+    expect(events.map((e) => e.a)).toEqual([1, 2]);
+  });
+
+  it("doesn't drop a final event without a trailing newline", async () => {
+    const events = await collect(sseBody("data: {\"a\": 1}\n\ndata: {\"a\": 2}"));
+    expect(events.map((e) => e.a)).toEqual([1, 2]);
+  });
+
+  it("reads nothing after [DONE]", async () => {
+    const events = await collect(sseBody("data: {\"a\": 1}\n\ndata: [DONE]\n\ndata: {\"a\": 2}\n\n"));
+    expect(events).toHaveLength(1);
+  });
+});
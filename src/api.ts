@@ -0,0 +1,241 @@
+import { v4 as uuidv4 } from "uuid";
+import { REASONING_KEY } from "./messageFields";
+import type { Message } from "./messageFields";
+import type { MessageContent } from "./contentParts";
+import type { Tool } from "./toolSchema";
+import type { ResponseFormat } from "./responseFormat";
+
+// -------------------- OpenAI-compatible endpoint --------------------
+// Minimal client for `/chat/completions` on any OpenAI-compatible server
+// (OpenAI, vLLM, llama.cpp, a local mock...).
+
+export type EndpointSettings = {
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  apiKey: string;
+  stream: boolean;
+};
+
+export const DEFAULT_ENDPOINT: EndpointSettings = {
+  baseUrl: "http://localhost:8000/v1",
+  model: "",
+  temperature: 0.7,
+  maxTokens: 1024,
+  apiKey: "",
+  stream: true,
+};
+
+export const isAbort = (e: unknown) => e instanceof Error && e.name === "AbortError";
+
+export class ApiError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// A reply message or streamed delta as the server sends it; any field may be
+// missing, and streamed tool calls arrive in pieces keyed by `index`
+export type WireToolCall = { index?: number; id?: string; type?: string; function?: { name?: string; arguments?: unknown } };
+export type WireMessage = {
+  role?: string;
+  content?: MessageContent;
+  reasoning_content?: string;
+  reasoning?: string;
+  refusal?: string;
+  tool_calls?: WireToolCall[];
+};
+export type Usage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+type ChatEvent = { choices?: { message?: WireMessage; delta?: WireMessage }[]; usage?: Usage; error?: { message?: string } };
+
+export type ChatRequest = {
+  messages: Message[];
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  tools?: Tool[];
+  response_format?: ResponseFormat;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+};
+
+export const chatCompletionsUrl = (baseUrl: string) => `${baseUrl.trim().replace(/\/+$/, "")}/chat/completions`;
+
+export const buildChatRequest = (settings: EndpointSettings, messages: Message[], tools: Tool[], responseFormat: ResponseFormat | null = null) => {
+  const body: ChatRequest = { messages };
+  if (settings.model) body.model = settings.model;
+  if (Number.isFinite(settings.temperature)) body.temperature = settings.temperature;
+  if (settings.maxTokens > 0) body.max_tokens = settings.maxTokens;
+  if (tools.length) body.tools = tools;
+  if (responseFormat) body.response_format = responseFormat;
+  return body;
+};
+
+export const postChatCompletion = async (settings: EndpointSettings, body: ChatRequest, signal?: AbortSignal) => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+  let res: Response;
+  try {
+    res = await fetch(chatCompletionsUrl(settings.baseUrl), { method: "POST", headers, body: JSON.stringify(body), signal });
+  } catch (e) {
+    if (isAbort(e)) throw e;
+    throw new ApiError(0, `Could not reach ${settings.baseUrl} (network or CORS error)`);
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    let detail = text;
+    try {
+      const parsed = JSON.parse(text);
+      detail = parsed?.error?.message || parsed?.message || parsed?.detail || text;
+    } catch {
+      // keep raw text
+    }
+    throw new ApiError(res.status, `HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ""}${detail ? `: ${detail}` : ""}`);
+  }
+  return res;
+};
+
+// Reasoning arrives as `reasoning_content` (DeepSeek, vLLM) or `reasoning`
+// (OpenRouter, Ollama)
+const reasoningOf = (m: WireMessage | undefined) => (typeof m?.[REASONING_KEY] === "string" ? m[REASONING_KEY] : typeof m?.reasoning === "string" ? m.reasoning : "");
+
+// Convert a response message into the editor's message shape.
+export const toEditorMessage = (message: WireMessage | undefined) => {
+  const out: Message = { role: "assistant", content: message?.content ?? null };
+  if (reasoningOf(message)) out[REASONING_KEY] = reasoningOf(message);
+  if (typeof message?.refusal === "string" && message.refusal) out.refusal = message.refusal;
+  if (Array.isArray(message?.tool_calls) && message.tool_calls.length) {
+    out.tool_calls = message.tool_calls.map((tc) => ({
+      id: tc.id || uuidv4(),
+      type: tc.type || "function",
+      function: {
+        name: tc.function?.name || "",
+        arguments: typeof tc.function?.arguments === "string" ? tc.function.arguments : JSON.stringify(tc.function?.arguments ?? {}),
+      },
+    }));
+  } else out.tool_calls = [];
+  return out;
+};
+
+export const chatCompletion = async (
+  settings: EndpointSettings,
+  messages: Message[],
+  tools: Tool[],
+  { signal, responseFormat }: { signal?: AbortSignal; responseFormat?: ResponseFormat | null } = {},
+) => {
+  const started = performance.now();
+  const res = await postChatCompletion(settings, buildChatRequest(settings, messages, tools, responseFormat), signal);
+  const data: ChatEvent = await res.json().catch(() => {
+    throw new ApiError(res.status, "Response is not valid JSON");
+  });
+  const message = data?.choices?.[0]?.message;
+  if (!message) throw new ApiError(res.status, "Response has no choices[0].message");
+  const latencyMs = performance.now() - started;
+  const tokens = data.usage?.completion_tokens ?? 0;
+  const stats: RunStats = { ttftMs: null, latencyMs, tokens, tokensPerSec: tokens && latencyMs > 0 ? (tokens / latencyMs) * 1000 : null };
+  return { message: toEditorMessage(message), usage: data.usage ?? null, latencyMs, stats };
+};
+
+export type RunStats = { ttftMs: number | null; latencyMs: number; tokens: number; tokensPerSec: number | null; stopped?: boolean };
+
+// Merge one streamed `choices[0].delta` into the message built so far.
+// Tool-call fragments are keyed by `index`; ids and names arrive once,
+// arguments arrive as string pieces to concatenate.
+export const accumulateDelta = (acc: WireMessage, delta: WireMessage): WireMessage => {
+  const next = { ...acc };
+  if (typeof delta?.content === "string") next.content = (next.content ?? "") + delta.content;
+  if (reasoningOf(delta)) next[REASONING_KEY] = (next[REASONING_KEY] ?? "") + reasoningOf(delta);
+  if (typeof delta?.refusal === "string") next.refusal = (next.refusal ?? "") + delta.refusal;
+  if (Array.isArray(delta?.tool_calls)) {
+    const calls = [...(next.tool_calls || [])];
+    for (const part of delta.tool_calls) {
+      const i = typeof part.index === "number" ? part.index : calls.length;
+      const prev = calls[i] || { id: "", type: "function", function: { name: "", arguments: "" } };
+      calls[i] = {
+        id: part.id || prev.id || `call_${uuidv4().slice(0, 8)}`,
+        type: part.type || prev.type,
+        function: {
+          name: (prev.function?.name || "") + (part.function?.name || ""),
+          arguments: String(prev.function?.arguments ?? "") + String(part.function?.arguments ?? ""),
+        },
+      };
+    }
+    next.tool_calls = calls;
+  }
+  return next;
+};
+
+// Yield the JSON payload of each `data:` event until `[DONE]`.
+export async function* readSSE<T = ChatEvent>(res: Response): AsyncGenerator<T> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    // the last event may end without a newline: flush it when the body ends
+    buffer += done ? `${decoder.decode()}\n` : decoder.decode(value, { stream: true });
+    let nl: number;
+    while ((nl = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, nl).replace(/\r$/, "");
+      buffer = buffer.slice(nl + 1);
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      try {
+        yield JSON.parse(data);
+      } catch {
+        // ignore keep-alives and partial garbage
+      }
+    }
+    if (done) return;
+  }
+}
+
+// Stream a completion, calling onUpdate with the partial assistant message as
+// deltas arrive. On abort the partial message is returned with stats.stopped.
+export const streamChatCompletion = async (
+  settings: EndpointSettings,
+  messages: Message[],
+  tools: Tool[],
+  { signal, onUpdate, responseFormat }: { signal?: AbortSignal; onUpdate?: (message: Message) => void; responseFormat?: ResponseFormat | null } = {},
+) => {
+  const started = performance.now();
+  let firstTokenAt: number | null = null;
+  let chunks = 0;
+  let usage: Usage | null = null;
+  let acc: WireMessage = { role: "assistant", content: null };
+  let stopped = false;
+  const body = { ...buildChatRequest(settings, messages, tools, responseFormat), stream: true, stream_options: { include_usage: true } };
+  const res = await postChatCompletion(settings, body, signal);
+  try {
+    for await (const event of readSSE(res)) {
+      if (event?.error) throw new ApiError(res.status, event.error.message || JSON.stringify(event.error));
+      if (event?.usage) usage = event.usage;
+      const delta = event?.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (firstTokenAt === null && (delta.content || delta.tool_calls)) firstTokenAt = performance.now();
+      if (delta.content || delta.tool_calls) chunks++;
+      acc = accumulateDelta(acc, delta);
+      onUpdate?.(toEditorMessage(acc));
+    }
+  } catch (e) {
+    if (!isAbort(e)) throw e;
+    stopped = true;
+  }
+  const end = performance.now();
+  // prefer the server's count; otherwise one chunk is roughly one token
+  const tokens = usage?.completion_tokens ?? chunks;
+  const genMs = firstTokenAt === null ? 0 : end - firstTokenAt;
+  const stats: RunStats = {
+    ttftMs: firstTokenAt === null ? null : firstTokenAt - started,
+    latencyMs: end - started,
+    tokens,
+    tokensPerSec: genMs > 0 ? (tokens / genMs) * 1000 : null,
+    stopped,
+  };
+  return { message: toEditorMessage(acc), usage, stats };
+};
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { makeBackup, parseBackup, planRestore } from "./backup";
+import { loadSettings, nowIso } from "./utils";
+import type { Conversation } from "./storage";
+
+describe("backups", () => {
+  it("round trip adds new conversations and dedupes by id", () => {
+    const conversations: Conversation[] = [{ id: "b1", name: "b", updatedAt: nowIso(), tools: [], messages: [{ role: "user", content: "u" }] }];
+    const { backup } = parseBackup(JSON.parse(JSON.stringify(makeBackup(conversations, loadSettings()))));
+    expect(planRestore([], backup, "merge").summary.added).toHaveLength(1);
+    expect(planRestore(backup.conversations, backup, "merge").summary.unchanged).toHaveLength(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { nowIso, withIds, DEFAULT_SETTINGS } from "./utils";
+import { isConversationRecord } from "./storage";
+import { isObject } from "./toolSchema";
+import type { Settings } from "./utils";
+import type { Conversation } from "./storage";
+import type { CompareColumn } from "./compare";
+import type { Message } from "./messageFields";
+
+// -------------------- Workspace backup --------------------
+// One file with every conversation (tools, tags, folder, snapshots,
+// timestamps) plus the workspace settings. `version` is bumped whenever the
+// shape changes; older files are brought up to date by MIGRATIONS on restore.
+// API keys (the Endpoint's and the comparison columns') are never written to
+// a backup.
+
+export const BACKUP_FORMAT = "llm-prompt-editor/workspace";
+export const BACKUP_VERSION = 1;
+
+export type WorkspaceBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Partial<Settings> | null;
+  conversations: Conversation[];
+};
+
+// storage bookkeeping, rewritten on every save
+const stripRecord = ({ rev, savedBy, ...c }: Conversation): Conversation => ({ ...c, messages: (c.messages || []).map(({ _id, ...m }) => m as Message) });
+
+const stripSecrets = (settings: Settings): Settings => ({
+  ...settings,
+  endpoint: { ...settings.endpoint, apiKey: "" },
+  compareColumns: (settings.compareColumns || []).map((c) => ({ ...c, apiKey: "" })),
+});
+
+// restored columns keep the keys this browser already has for them
+const keepColumnKeys = (restored: CompareColumn[] = [], current: CompareColumn[] = []) =>
+  restored.map((c) => ({ ...c, apiKey: current.find((k) => k.id === c.id)?.apiKey || "" }));
+
+export const makeBackup = (conversations: Conversation[], settings: Settings): WorkspaceBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: nowIso(),
+  settings: stripSecrets(settings),
+  conversations: conversations.map(stripRecord),
+});
+
+export const backupFileName = () => `workspace-backup-${new Date().toISOString().slice(0, 10)}.json`;
+
+// MIGRATIONS[n] turns a version n backup into version n + 1. Version 0 is the
+// bare conversation array written by earlier "Download backup" buttons and
+// stored under the old localStorage key.
+const MIGRATIONS: Record<number, (b: unknown) => unknown> = {
+  0: (list) => ({ format: BACKUP_FORMAT, version: 1, exportedAt: nowIso(), settings: null, conversations: list }),
+};
+
+export const isBackup = (value: unknown) => Array.isArray(value) ? value.length > 0 && value.every(isConversationRecord) : isObject(value) && value.format === BACKUP_FORMAT;
+
+const versionOf = (b: unknown): unknown => (Array.isArray(b) ? 0 : isObject(b) && b.format === BACKUP_FORMAT ? b.version : undefined);
+
+export const parseBackup = (value: unknown): { backup: WorkspaceBackup; skipped: number } => {
+  let b = value;
+  const found = versionOf(b);
+  if (typeof found !== "number") throw new Error("Not a workspace backup");
+  let version = found;
+  if (version > BACKUP_VERSION) throw new Error(`This backup was written by a newer version of the app (format v${version}, this app reads up to v${BACKUP_VERSION})`);
+  while (version < BACKUP_VERSION) {
+    b = MIGRATIONS[version](b);
+    version = versionOf(b) as number;
+  }
+  if (!isObject(b) || !Array.isArray(b.conversations)) throw new Error("Backup has no conversations");
+  const valid = b.conversations.filter(isConversationRecord);
+  const seen = new Set<string>();
+  const conversations = valid.filter((c) => !seen.has(c.id) && !!seen.add(c.id)).map(stripRecord);
+  return { backup: { ...(b as WorkspaceBackup), conversations }, skipped: b.conversations.length - valid.length };
+};
+
+export const restoreSettings = (current: Settings, backup: WorkspaceBackup): Settings =>
+  backup.settings
+    ? {
+        ...DEFAULT_SETTINGS,
+        ...backup.settings,
+        endpoint: { ...DEFAULT_SETTINGS.endpoint, ...backup.settings.endpoint, apiKey: current.endpoint?.apiKey || "" },
+        compareColumns: keepColumnKeys(backup.settings.compareColumns, current.compareColumns),
+      }
+    : current;
+
+export type RestoreMode = "merge" | "replace";
+
+export type RestoreSummary = { added: string[]; updated: string[]; unchanged: string[]; keptLocal: string[]; removed: string[] };
+
+const comparable = ({ updatedAt, ...c }: Conversation) => JSON.stringify(stripRecord(c as Conversation));
+
+const newer = (a: Conversation, b: Conversation) => new Date(a.updatedAt || 0).valueOf() > new Date(b.updatedAt || 0).valueOf();
+
+// Conversations are matched by id. Merge keeps everything local and takes a
+// backed-up conversation when it is new or newer than the local copy; replace
+// makes the workspace exactly the backup.
+export const planRestore = (current: Conversation[], backup: WorkspaceBackup, mode: RestoreMode) => {
+  const summary: RestoreSummary = { added: [], updated: [], unchanged: [], keptLocal: [], removed: [] };
+  const byId = new Map(current.map((c) => [c.id, c]));
+  const incoming = new Map(backup.conversations.map((c) => [c.id, c]));
+  const result = new Map<string, Conversation>(mode === "merge" ? byId : []);
+  for (const c of backup.conversations) {
+    const local = byId.get(c.id);
+    const label = c.name || "Untitled conversation";
+    if (!local) summary.added.push(label);
+    else if (comparable(local) === comparable(c)) summary.unchanged.push(label);
+    else if (mode === "merge" && newer(local, c)) {
+      summary.keptLocal.push(label);
+      continue;
+    } else summary.updated.push(label);
+    // unchanged ones keep the local object so they aren't written again
+    result.set(c.id, local && comparable(local) === comparable(c) ? local : { ...c, messages: withIds(c.messages) });
+  }
+  if (mode === "replace") for (const c of current) if (!incoming.has(c.id)) summary.removed.push(c.name || "Untitled conversation");
+  const conversations = [...result.values()].sort((a, b) => new Date(b.updatedAt || 0).valueOf() - new Date(a.updatedAt || 0).valueOf());
+  return { conversations, summary };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { addAlternative, leafPaths, switchAlternative } from "./branches";
+import { withIds } from "./utils";
+
+const messages = withIds([
+  { role: "system", content: "sys" },
+  { role: "user", content: "u" },
+  { role: "assistant", content: null, tool_calls: [{ id: "t123", type: "function", function: { name: "f", arguments: "{}" } }] },
+]);
+
+describe("alternatives", () => {
+  it("start a new leaf path", () => {
+    const branched = addAlternative(messages, 2, { role: "assistant", content: "alt" });
+    expect(branched).toHaveLength(3);
+    expect(branched[2].content).toBe("alt");
+    expect(leafPaths(branched)).toHaveLength(2);
+  });
+
+  it("switching back restores the original reply", () => {
+    const branched = addAlternative(messages, 2, { role: "assistant", content: "alt" });
+    expect(switchAlternative(branched, 2, 0)[2].tool_calls).toHaveLength(1);
+  });
+});
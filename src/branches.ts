@@ -0,0 +1,73 @@
+import { withIds } from "./utils";
+import type { Message } from "./messageFields";
+
+// -------------------- Alternative branches --------------------
+// The editor always works on a flat `messages` array: the currently selected
+// path through the conversation tree. An assistant message that has
+// alternatives carries them in `_branches` (one slot per alternative) and the
+// selected slot index in `_branch`. The selected slot is null because its data
+// is live in the path; every other slot stores that alternative's message and
+// the messages that followed it (`tail`), which may hold nested branch points.
+
+export type Branch = { message: Message; tail: Message[] };
+
+const BRANCH_KEYS = ["_id", "_branches", "_branch"];
+
+type BranchPoint = Message & { _branches: (Branch | null)[]; _branch: number };
+
+export const hasBranches = (m: Message | undefined): m is BranchPoint => Array.isArray(m?._branches) && m._branches.length > 1;
+
+// The message without branch bookkeeping or editor ids
+export const stripBranch = (m: Message) => Object.fromEntries(Object.entries(m).filter(([k]) => !BRANCH_KEYS.includes(k))) as Message;
+
+// Replace the message at idx with alternative k, saving the current one (and
+// everything after it) into its slot.
+export const switchAlternative = (messages: Message[], idx: number, k: number) => {
+  const m = messages[idx];
+  if (!hasBranches(m) || k === m._branch || k < 0 || k >= m._branches.length) return messages;
+  const branches = [...m._branches];
+  branches[m._branch] = { message: stripBranch(m), tail: messages.slice(idx + 1) };
+  const target = branches[k]!;
+  branches[k] = null;
+  return [...messages.slice(0, idx), { ...target.message, _id: m._id, _branches: branches, _branch: k }, ...withIds(target.tail)];
+};
+
+// Add `alt` as a new alternative to the message at idx and select it. The
+// new alternative starts a fresh branch, so later messages stay with the old one.
+export const addAlternative = (messages: Message[], idx: number, alt: Message): Message[] => {
+  const m = messages[idx];
+  const branches = hasBranches(m) ? [...m._branches] : [null];
+  const current = hasBranches(m) ? m._branch : 0;
+  branches[current] = { message: stripBranch(m), tail: messages.slice(idx + 1) };
+  branches.push(null);
+  return [...messages.slice(0, idx), { ...stripBranch(alt), _id: m._id, _branches: branches, _branch: branches.length - 1 }];
+};
+
+// Drop the selected alternative and show its neighbour instead.
+export const removeAlternative = (messages: Message[], idx: number) => {
+  const m = messages[idx];
+  if (!hasBranches(m)) return messages;
+  const k = m._branch;
+  const nextK = k > 0 ? k - 1 : 1;
+  const target = m._branches[nextK]!;
+  const branches = m._branches.filter((_, i) => i !== k);
+  const selected = nextK > k ? nextK - 1 : nextK;
+  branches[selected] = null;
+  const head: Message = { ...target.message, _id: m._id };
+  if (branches.length > 1) Object.assign(head, { _branches: branches, _branch: selected });
+  return [...messages.slice(0, idx), head, ...withIds(target.tail)];
+};
+
+// Every root-to-leaf path through the tree, as plain message arrays.
+export const leafPaths = (messages: Message[]): Message[][] => {
+  const i = messages.findIndex(hasBranches);
+  const m = messages[i];
+  if (!hasBranches(m)) return [messages.map(stripBranch)];
+  const prefix = messages.slice(0, i).map(stripBranch);
+  const out: Message[][] = [];
+  m._branches.forEach((b, k) => {
+    const [head, tail] = k === m._branch ? [stripBranch(m), messages.slice(i + 1)] : [b!.message, b!.tail];
+    for (const rest of leafPaths(tail)) out.push([...prefix, head, ...rest]);
+  });
+  return out;
+};
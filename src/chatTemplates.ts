@@ -0,0 +1,225 @@
+import { Template } from "@huggingface/jinja";
+import { contentText } from "./contentParts";
+import { isObject } from "./toolSchema";
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+
+// -------------------- Chat templates --------------------
+// Jinja chat templates as shipped in Hugging Face tokenizer_config.json
+// files, rendered in the browser to show the exact prompt string a model is
+// trained on or receives. The built-ins follow the official templates of each
+// family, trimmed of rarely used branches.
+
+export type ChatTemplate = { id: string; label: string; template: string; bosToken: string; eosToken: string };
+
+const LLAMA3 = `{{- bos_token }}
+{%- if messages[0].role == 'system' %}
+    {%- set system_message = messages[0].content | trim %}
+    {%- set messages = messages[1:] %}
+{%- else %}
+    {%- set system_message = "" %}
+{%- endif %}
+{{- "<|start_header_id|>system<|end_header_id|>\\n\\n" }}
+{%- if tools %}
+    {{- "Environment: ipython\\n" }}
+{%- endif %}
+{{- "Cutting Knowledge Date: December 2023\\nToday Date: " + date_string + "\\n\\n" }}
+{%- if tools %}
+    {{- "You have access to the following functions. To call a function, please respond with JSON for a function call. " }}
+    {{- 'Respond in the format {"name": function name, "parameters": dictionary of argument name and its value}. ' }}
+    {{- "Do not use variables.\\n\\n" }}
+    {%- for t in tools %}
+        {{- t | tojson(indent=4) }}
+        {{- "\\n\\n" }}
+    {%- endfor %}
+{%- endif %}
+{{- system_message }}
+{{- "<|eot_id|>" }}
+{%- for message in messages %}
+    {%- if message.role == 'assistant' and message.tool_calls %}
+        {{- '<|start_header_id|>assistant<|end_header_id|>\\n\\n' }}
+        {%- for tool_call in message.tool_calls %}
+            {{- '{"name": "' + tool_call.function.name + '", "parameters": ' }}
+            {{- tool_call.function.arguments | tojson }}
+            {{- "}" }}
+        {%- endfor %}
+        {{- "<|eot_id|>" }}
+    {%- elif message.role == 'tool' %}
+        {{- "<|start_header_id|>ipython<|end_header_id|>\\n\\n" }}
+        {{- message.content }}
+        {{- "<|eot_id|>" }}
+    {%- else %}
+        {{- '<|start_header_id|>' + message.role + '<|end_header_id|>\\n\\n' + message.content | trim + '<|eot_id|>' }}
+    {%- endif %}
+{%- endfor %}
+{%- if add_generation_prompt %}
+    {{- '<|start_header_id|>assistant<|end_header_id|>\\n\\n' }}
+{%- endif %}`;
+
+const QWEN25 = `{%- if tools %}
+    {{- '<|im_start|>system\\n' }}
+    {%- if messages[0].role == 'system' %}
+        {{- messages[0].content }}
+    {%- else %}
+        {{- 'You are Qwen, created by Alibaba Cloud. You are a helpful assistant.' }}
+    {%- endif %}
+    {{- "\\n\\n# Tools\\n\\nYou may call one or more functions to assist with the user query.\\n\\nYou are provided with function signatures within <tools></tools> XML tags:\\n<tools>" }}
+    {%- for tool in tools %}
+        {{- "\\n" }}
+        {{- tool | tojson }}
+    {%- endfor %}
+    {{- "\\n</tools>\\n\\nFor each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:\\n<tool_call>\\n{\\"name\\": <function-name>, \\"arguments\\": <args-json-object>}\\n</tool_call><|im_end|>\\n" }}
+{%- else %}
+    {%- if messages[0].role == 'system' %}
+        {{- '<|im_start|>system\\n' + messages[0].content + '<|im_end|>\\n' }}
+    {%- else %}
+        {{- '<|im_start|>system\\nYou are Qwen, created by Alibaba Cloud. You are a helpful assistant.<|im_end|>\\n' }}
+    {%- endif %}
+{%- endif %}
+{%- for message in messages %}
+    {%- if (message.role == "user") or (message.role == "system" and not loop.first) or (message.role == "assistant" and not message.tool_calls) %}
+        {{- '<|im_start|>' + message.role + '\\n' + message.content + '<|im_end|>' + '\\n' }}
+    {%- elif message.role == "assistant" %}
+        {{- '<|im_start|>' + message.role }}
+        {%- if message.content %}
+            {{- '\\n' + message.content }}
+        {%- endif %}
+        {%- for tool_call in message.tool_calls %}
+            {{- '\\n<tool_call>\\n{"name": "' }}
+            {{- tool_call.function.name }}
+            {{- '", "arguments": ' }}
+            {{- tool_call.function.arguments | tojson }}
+            {{- '}\\n</tool_call>' }}
+        {%- endfor %}
+        {{- '<|im_end|>\\n' }}
+    {%- elif message.role == "tool" %}
+        {%- if (loop.index0 == 0) or (messages[loop.index0 - 1].role != "tool") %}
+            {{- '<|im_start|>user' }}
+        {%- endif %}
+        {{- '\\n<tool_response>\\n' }}
+        {{- message.content }}
+        {{- '\\n</tool_response>' }}
+        {%- if loop.last or (messages[loop.index0 + 1].role != "tool") %}
+            {{- '<|im_end|>\\n' }}
+        {%- endif %}
+    {%- endif %}
+{%- endfor %}
+{%- if add_generation_prompt %}
+    {{- '<|im_start|>assistant\\n' }}
+{%- endif %}`;
+
+const MISTRAL = `{%- if messages[0].role == 'system' %}
+    {%- set system_message = messages[0].content %}
+    {%- set loop_messages = messages[1:] %}
+{%- else %}
+    {%- set loop_messages = messages %}
+{%- endif %}
+{%- set ns = namespace(last_user=-1) %}
+{%- for message in loop_messages %}
+    {%- if message.role == 'user' %}
+        {%- set ns.last_user = loop.index0 %}
+    {%- endif %}
+{%- endfor %}
+{{- bos_token }}
+{%- for message in loop_messages %}
+    {%- if message.role == 'user' %}
+        {%- if tools and loop.index0 == ns.last_user %}
+            {{- '[AVAILABLE_TOOLS] ' + tools | tojson + '[/AVAILABLE_TOOLS]' }}
+        {%- endif %}
+        {%- if system_message is defined and loop.index0 == ns.last_user %}
+            {{- '[INST] ' + system_message + '\\n\\n' + message.content + '[/INST]' }}
+        {%- else %}
+            {{- '[INST] ' + message.content + '[/INST]' }}
+        {%- endif %}
+    {%- elif message.role == 'assistant' and message.tool_calls %}
+        {{- '[TOOL_CALLS] [' }}
+        {%- for tool_call in message.tool_calls %}
+            {{- '{"name": "' + tool_call.function.name + '", "arguments": ' + tool_call.function.arguments | tojson + ', "id": "' + tool_call.id + '"}' }}
+            {%- if not loop.last %}
+                {{- ', ' }}
+            {%- endif %}
+        {%- endfor %}
+        {{- ']' + eos_token }}
+    {%- elif message.role == 'assistant' %}
+        {{- ' ' + message.content + eos_token }}
+    {%- elif message.role == 'tool' %}
+        {{- '[TOOL_RESULTS] {"content": ' + message.content | tojson + ', "call_id": "' + message.tool_call_id + '"}[/TOOL_RESULTS]' }}
+    {%- endif %}
+{%- endfor %}`;
+
+const CHATML = `{%- for message in messages %}
+    {{- '<|im_start|>' + message.role + '\\n' + message.content + '<|im_end|>\\n' }}
+{%- endfor %}
+{%- if add_generation_prompt %}
+    {{- '<|im_start|>assistant\\n' }}
+{%- endif %}`;
+
+export const BUILTIN_TEMPLATES: ChatTemplate[] = [
+  { id: "llama3", label: "Llama 3.1 / 3.2 / 3.3", template: LLAMA3, bosToken: "<|begin_of_text|>", eosToken: "<|eot_id|>" },
+  { id: "qwen2.5", label: "Qwen 2.5", template: QWEN25, bosToken: "", eosToken: "<|im_end|>" },
+  { id: "mistral", label: "Mistral (v3 instruct, tools)", template: MISTRAL, bosToken: "<s>", eosToken: "</s>" },
+  { id: "chatml", label: "ChatML (text only)", template: CHATML, bosToken: "", eosToken: "<|im_end|>" },
+];
+
+export const CUSTOM_TEMPLATE_ID = "custom";
+
+const tokenText = (t: unknown) => (typeof t === "string" ? t : isObject(t) && typeof t.content === "string" ? t.content : "");
+
+// Accepts a whole tokenizer_config.json or a bare template. Named template
+// lists pick "tool_use" when there are tools, "default" otherwise.
+export const parseTokenizerConfig = (text: string, hasTools: boolean): ChatTemplate => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Paste a tokenizer_config.json or a chat template");
+  let config: unknown;
+  try {
+    config = JSON.parse(trimmed);
+  } catch {
+    // not JSON: a bare template ("{%" / "{{" are not valid JSON)
+    return { id: CUSTOM_TEMPLATE_ID, label: "Custom", template: trimmed, bosToken: "", eosToken: "" };
+  }
+  if (!isObject(config)) throw new Error("tokenizer_config.json has no chat_template");
+  let template = config.chat_template;
+  if (Array.isArray(template)) {
+    const list = template.filter(isObject);
+    const named = (n: string) => list.find((t) => t.name === n)?.template;
+    template = (hasTools && named("tool_use")) || named("default") || list[0]?.template;
+  }
+  if (typeof template !== "string") throw new Error("tokenizer_config.json has no chat_template");
+  return { id: CUSTOM_TEMPLATE_ID, label: "Custom", template, bosToken: tokenText(config.bos_token), eosToken: tokenText(config.eos_token) };
+};
+
+// Templates expect tool-call arguments as objects and content as a string;
+// media parts show as placeholders such as "[image 120 KB]"
+const templateMessages = (messages: Message[]) =>
+  messages.map((m) => ({
+    ...m,
+    content: contentText(m.content),
+    ...(m.tool_calls && {
+      tool_calls: m.tool_calls.map((tc) => {
+        let args: unknown = tc.function?.arguments;
+        try {
+          if (typeof args === "string") args = JSON.parse(args);
+        } catch {
+          // leave invalid JSON as the raw string
+        }
+        return { ...tc, function: { ...tc.function, arguments: args } };
+      }),
+    }),
+  }));
+
+export const renderChatTemplate = (tpl: ChatTemplate, messages: Message[], tools: Tool[] | null, addGenerationPrompt: boolean) =>
+  new Template(tpl.template).render({
+    messages: templateMessages(messages),
+    tools: tools?.length ? tools : undefined,
+    bos_token: tpl.bosToken,
+    eos_token: tpl.eosToken,
+    add_generation_prompt: addGenerationPrompt,
+    date_string: new Date().toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" }),
+  });
+
+// <|...|>, [INST]-style markers and <s>/</s>, plus the template's own bos/eos
+export const specialTokenPattern = (tpl: ChatTemplate) => {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const extra = [tpl.bosToken, tpl.eosToken].filter(Boolean).map(escape);
+  return new RegExp([String.raw`<\|[^|\s]+\|>`, String.raw`\[\/?[A-Z_]+\]`, "</?s>", ...extra].join("|"), "g");
+};
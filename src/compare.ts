@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from "uuid";
+import type { EndpointSettings, Usage } from "./api";
+import type { Message } from "./messageFields";
+
+// -------------------- Comparison columns --------------------
+// Each column of the comparison view overrides some Endpoint settings (base
+// URL, model, temperature, max tokens, API key) and may replace the system
+// prompt, so models, settings and prompt variants answer the same
+// conversation side by side. Empty fields fall back to the Endpoint panel.
+// Columns are kept with the workspace settings (`compareColumns`).
+
+export type CompareColumn = {
+  id: string;
+  label: string;
+  baseUrl: string;
+  model: string;
+  temperature: number | null;
+  maxTokens: number | null;
+  apiKey: string;
+  systemPrompt: string;
+};
+
+export type ColumnResult =
+  | { status: "running" }
+  | { status: "done"; message: Message; latencyMs: number; usage: Usage | null }
+  | { status: "error"; error: string };
+
+export const newColumn = (patch: Partial<CompareColumn> = {}): CompareColumn => ({
+  id: uuidv4(),
+  label: "",
+  baseUrl: "",
+  model: "",
+  temperature: null,
+  maxTokens: null,
+  apiKey: "",
+  systemPrompt: "",
+  ...patch,
+});
+
+export const copyColumn = (c: CompareColumn): CompareColumn => ({ ...c, id: uuidv4(), label: c.label && `${c.label} (copy)` });
+
+// Two columns to start from: the Endpoint settings as they are, and greedy
+export const defaultColumns = () => [newColumn(), newColumn({ temperature: 0 })];
+
+export const columnEndpoint = (c: CompareColumn, base: EndpointSettings): EndpointSettings => ({
+  ...base,
+  baseUrl: c.baseUrl.trim() || base.baseUrl,
+  model: c.model.trim() || base.model,
+  temperature: c.temperature ?? base.temperature,
+  maxTokens: c.maxTokens ?? base.maxTokens,
+  apiKey: c.apiKey || base.apiKey,
+  stream: false,
+});
+
+export const columnTitle = (c: CompareColumn, base: EndpointSettings) => {
+  if (c.label.trim()) return c.label.trim();
+  const ep = columnEndpoint(c, base);
+  return [ep.model || "default model", `t=${ep.temperature}`, c.systemPrompt.trim() ? "own system prompt" : ""].filter(Boolean).join(" · ");
+};
+
+// The column's system prompt replaces a leading system message, or is added
+// in front of the conversation
+export const withSystemPrompt = (messages: Message[], prompt: string): Message[] => {
+  if (!prompt.trim()) return messages;
+  return messages[0]?.role === "system" ? [{ ...messages[0], content: prompt }, ...messages.slice(1)] : [{ role: "system", content: prompt }, ...messages];
+};
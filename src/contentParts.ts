@@ -0,0 +1,104 @@
+import type { Message } from "./messageFields";
+
+// -------------------- Content parts --------------------
+// User and tool messages may hold an ordered array of OpenAI content parts
+// instead of a string:
+//
+//   { type: "text", text }
+//   { type: "image_url", image_url: { url, detail? } }      url may be a data: URL
+//   { type: "input_audio", input_audio: { data, format } }  base64, "wav" | "mp3"
+//   { type: "file", file: { filename, file_data } }         file_data is a data: URL
+//
+// Parts are stored exactly as the API expects them, so export sends the array
+// unchanged. Everything that only needs text (search, diff, token counts,
+// other export formats) goes through the helpers below.
+
+export type TextPart = { type: "text"; text: string };
+export type ImageDetail = "auto" | "low" | "high";
+export type ImagePart = { type: "image_url"; image_url: { url: string; detail?: ImageDetail } };
+export type AudioPart = { type: "input_audio"; input_audio: { data: string; format: string } };
+export type FilePart = { type: "file"; file: { filename?: string; file_data?: string } };
+export type ContentPart = TextPart | ImagePart | AudioPart | FilePart;
+export type MessageContent = string | ContentPart[] | null;
+
+export const PART_TYPES: ContentPart["type"][] = ["text", "image_url", "input_audio", "file"];
+
+export const isPartList = (content: unknown): content is ContentPart[] => Array.isArray(content);
+
+export const isKnownPart = (p: unknown): p is ContentPart =>
+  !!p && typeof p === "object" && "type" in p && PART_TYPES.some((type) => type === p.type);
+
+export const toParts = (content: MessageContent | undefined): ContentPart[] =>
+  isPartList(content) ? content : typeof content === "string" && content ? [{ type: "text", text: content }] : [];
+
+// Short stand-in for a non-text part, e.g. "[image 120 KB]"
+export const partLabel = (p: ContentPart) => {
+  if (p?.type === "image_url") return `[image${partBytes(p) ? ` ${formatBytes(partBytes(p))}` : ""}]`;
+  if (p?.type === "input_audio") return `[audio ${formatBytes(partBytes(p))}]`;
+  if (p?.type === "file") return `[file ${p.file?.filename || ""}]`.replace(" ]", "]");
+  return `[${p?.type || "unknown"}]`;
+};
+
+// Text of a string or part list; non-text parts become placeholders unless
+// `textOnly` is set.
+export const contentText = (content: unknown, textOnly = false): string => {
+  if (typeof content === "string") return content;
+  if (content == null) return "";
+  if (!isPartList(content)) return JSON.stringify(content);
+  return content
+    .map((p) => (p?.type === "text" ? String(p.text ?? "") : textOnly ? "" : partLabel(p)))
+    .filter(Boolean)
+    .join("\n");
+};
+
+// ---- sizes ----
+
+const base64Bytes = (b64: string) => Math.floor((b64.length * 3) / 4) - (b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0);
+
+const dataUrlBytes = (url: unknown) => {
+  if (typeof url !== "string" || !url.startsWith("data:")) return 0;
+  const comma = url.indexOf(",");
+  return comma < 0 ? 0 : url.slice(0, comma).endsWith(";base64") ? base64Bytes(url.slice(comma + 1)) : url.length - comma - 1;
+};
+
+export const partBytes = (p: ContentPart) => {
+  if (p?.type === "image_url") return dataUrlBytes(p.image_url?.url);
+  if (p?.type === "input_audio") return typeof p.input_audio?.data === "string" ? base64Bytes(p.input_audio.data) : 0;
+  if (p?.type === "file") return dataUrlBytes(p.file?.file_data);
+  return 0;
+};
+
+// Bytes of embedded media (images, audio, files) in a message or conversation
+export const messageMediaBytes = (m: Message) => (isPartList(m.content) ? m.content.reduce((n, p) => n + partBytes(p), 0) : 0);
+export const mediaBytes = (messages: Message[]) => messages.reduce((n, m) => n + messageMediaBytes(m), 0);
+
+export const formatBytes = (n: number) =>
+  n >= 1024 * 1024 ? `${(n / (1024 * 1024)).toFixed(1)} MB` : n >= 1024 ? `${Math.round(n / 1024)} KB` : `${n} B`;
+
+// ---- files ----
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const AUDIO_FORMATS: Record<string, string> = { "audio/wav": "wav", "audio/x-wav": "wav", "audio/wave": "wav", "audio/mpeg": "mp3", "audio/mp3": "mp3" };
+
+// A dropped, pasted or picked file as a content part: images and WAV/MP3 audio
+// get their own part types, anything else is sent as a file.
+export const fileToPart = async (file: File): Promise<ContentPart> => {
+  const url = await readAsDataUrl(file);
+  if (file.type.startsWith("image/")) return { type: "image_url", image_url: { url } };
+  const format = AUDIO_FORMATS[file.type];
+  if (format) return { type: "input_audio", input_audio: { data: url.slice(url.indexOf(",") + 1), format } };
+  return { type: "file", file: { filename: file.name, file_data: url } };
+};
+
+// Split a data: URL into media type and base64 payload (for other providers)
+export const parseDataUrl = (url: unknown) => {
+  const m = typeof url === "string" ? url.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s) : null;
+  return m ? { mediaType: m[1], data: m[2] } : null;
+};
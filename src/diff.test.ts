@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { diffMessages } from "./diff";
+import type { Message } from "./messageFields";
+
+describe("diffMessages", () => {
+  it("classifies edited, kept and added messages", () => {
+    const before: Message[] = [{ role: "system", content: "sys" }, { role: "user", content: "u" }];
+    const after: Message[] = [{ role: "system", content: "new sys" }, before[1], { role: "assistant", content: "a" }];
+    expect(diffMessages(before, after).map((r) => r.type)).toEqual(["changed", "same", "added"]);
+  });
+});
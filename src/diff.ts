@@ -0,0 +1,124 @@
+import { contentText } from "./contentParts";
+import { getReasoning } from "./messageFields";
+import type { Message, Role } from "./messageFields";
+
+// -------------------- Structural diff --------------------
+// Compares two message lists: messages are matched by content (LCS), then
+// leftovers are classified as moved (identical elsewhere), changed (same role
+// in the same gap, with a word-level diff) or added/removed.
+
+export type WordOp = { op: "same" | "add" | "del"; text: string };
+export type DiffRow =
+  | { type: "same"; a: number; b: number; msg: Message }
+  | { type: "moved"; a: number; b: number; msg: Message }
+  | { type: "changed"; a: number; b: number; role: Role; words: WordOp[] }
+  | { type: "added"; b: number; msg: Message }
+  | { type: "removed"; a: number; msg: Message };
+
+// Longest common subsequence as index pairs. Falls back to no matches when
+// the table would be too large to build in the browser.
+const MAX_LCS_CELLS = 4_000_000;
+export const lcsPairs = (a: string[], b: string[]): [number, number][] => {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_LCS_CELLS) return [];
+  const dp: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) dp[i][j] = a[i] === b[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+  }
+  const out: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push([i, j]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) i++;
+    else j++;
+  }
+  return out;
+};
+
+export const diffWords = (a: string, b: string): WordOp[] => {
+  const ta = a.split(/(\s+)/).filter(Boolean);
+  const tb = b.split(/(\s+)/).filter(Boolean);
+  const pairs = lcsPairs(ta, tb);
+  if (!pairs.length && ta.length && tb.length) return [{ op: "del", text: a }, { op: "add", text: b }];
+  const out: WordOp[] = [];
+  const push = (op: WordOp["op"], text: string) => {
+    const last = out[out.length - 1];
+    if (last?.op === op) last.text += text;
+    else out.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...pairs, [ta.length, tb.length] as [number, number]]) {
+    while (i < pi) push("del", ta[i++]);
+    while (j < pj) push("add", tb[j++]);
+    if (pi < ta.length) push("same", ta[pi]);
+    i = pi + 1;
+    j = pj + 1;
+  }
+  return out;
+};
+
+// Text used both for matching and for the word diff of a message.
+export const messageText = (m: Message) => {
+  const parts: string[] = [];
+  if (getReasoning(m)) parts.push(`[reasoning] ${getReasoning(m)}`);
+  if (m.content != null && m.content !== "") parts.push(contentText(m.content));
+  for (const tc of m.tool_calls || []) parts.push(`→ ${tc.function?.name || "?"}(${tc.function?.arguments ?? ""})`);
+  if (m.role === "tool" && m.tool_call_id) parts.push(`[tool_call_id ${m.tool_call_id}]`);
+  return parts.join("\n");
+};
+
+const signature = (m: Message) => `${m.role}\u0000${messageText(m)}`;
+
+export const diffMessages = (a: Message[], b: Message[]): DiffRow[] => {
+  const sa = a.map(signature);
+  const sb = b.map(signature);
+  const anchors = lcsPairs(sa, sb);
+  const matchedA = new Set(anchors.map(([i]) => i));
+  const matchedB = new Set(anchors.map(([, j]) => j));
+
+  // moved: an unmatched message that appears unchanged on the other side
+  const moved = new Map<number, number>(); // b index -> a index
+  const movedA = new Set<number>();
+  sb.forEach((sig, j) => {
+    if (matchedB.has(j)) return;
+    const i = sa.findIndex((s, k) => s === sig && !matchedA.has(k) && !movedA.has(k));
+    if (i >= 0) {
+      moved.set(j, i);
+      movedA.add(i);
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  let ai = 0;
+  let bj = 0;
+  for (const [pi, pj] of [...anchors, [a.length, b.length] as [number, number]]) {
+    const removed: number[] = [];
+    for (; ai < pi; ai++) if (!movedA.has(ai)) removed.push(ai);
+    for (; bj < pj; bj++) {
+      if (moved.has(bj)) {
+        rows.push({ type: "moved", a: moved.get(bj)!, b: bj, msg: b[bj] });
+        continue;
+      }
+      // pair leftovers with the same role as in-place edits
+      const k = removed.findIndex((i) => a[i].role === b[bj].role);
+      if (k >= 0) {
+        const [i] = removed.splice(k, 1);
+        rows.push({ type: "changed", a: i, b: bj, role: b[bj].role, words: diffWords(messageText(a[i]), messageText(b[bj])) });
+      } else rows.push({ type: "added", b: bj, msg: b[bj] });
+    }
+    for (const i of removed) rows.push({ type: "removed", a: i, msg: a[i] });
+    if (pi < a.length) rows.push({ type: "same", a: pi, b: pj, msg: b[pj] });
+    ai = pi + 1;
+    bj = pj + 1;
+  }
+  return rows;
+};
+
+export const diffSummary = (rows: DiffRow[]) =>
+  rows.reduce((acc: Record<string, number>, r) => ({ ...acc, [r.type]: (acc[r.type] || 0) + 1 }), {});
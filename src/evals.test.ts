@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { checkAssertion, isSubset } from "./evals";
+import type { Message } from "./messageFields";
+
+describe("checkAssertion", () => {
+  const reply: Message = { role: "assistant", content: null, tool_calls: [{ id: "c", type: "function", function: { name: "f", arguments: '{"a": 1, "b": [2]}' } }] };
+
+  it("passes a tool call whose arguments include the expected ones", () => {
+    expect(checkAssertion({ id: "1", kind: "tool_call", value: "f", args: '{"b": [2]}' }, reply, null).pass).toBe(true);
+  });
+
+  it("fails a contains assertion on missing text", () => {
+    expect(checkAssertion({ id: "2", kind: "contains", value: "x" }, reply, null).pass).toBe(false);
+  });
+});
+
+describe("isSubset", () => {
+  it("matches nested objects and arrays exactly", () => {
+    expect(isSubset({ a: { b: 1 } }, { a: { b: 1, c: 2 }, d: 3 })).toBe(true);
+    expect(isSubset([1], [1, 2])).toBe(false);
+  });
+
+  it("only matches the reply's own keys", () => {
+    expect(isSubset(JSON.parse('{"__proto__": {}}'), {})).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from "uuid";
+import { chatCompletion, isAbort } from "./api";
+import type { EndpointSettings } from "./api";
+import { contentText } from "./contentParts";
+import { isObject, validateValue } from "./toolSchema";
+import { parseArguments } from "./mocks";
+import { responseSchema } from "./responseFormat";
+import { nowIso } from "./utils";
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+import type { ResponseFormat } from "./responseFormat";
+
+// -------------------- Evals --------------------
+// Assertions about the assistant turn a model produces for a conversation,
+// stored on the conversation as `evals: { assertions, history }`. The runner
+// sends the conversation (without a trailing assistant message, which is
+// treated as the reference answer) N times and counts how often each
+// assertion passes. Every run is kept in the history so regressions show up.
+//
+//   contains    the reply text contains `value`
+//   regex       the reply text matches `value` with `flags`
+//   tool_call   the reply calls function `value`, with arguments containing
+//               the JSON subset `args` when given
+//   json_schema the reply text is JSON valid for the schema in `value`, or
+//               for the conversation's response format when empty
+
+export type AssertionKind = "contains" | "regex" | "tool_call" | "json_schema";
+export type Assertion = { id: string; kind: AssertionKind; value: string; flags?: string; args?: string };
+
+export const ASSERTION_KINDS: { id: AssertionKind; label: string; placeholder: string }[] = [
+  { id: "contains", label: "Contains text", placeholder: "Dublin" },
+  { id: "regex", label: "Matches regex", placeholder: "\\b\\d+°C\\b" },
+  { id: "tool_call", label: "Calls tool", placeholder: "get_weather" },
+  { id: "json_schema", label: "Valid JSON for schema", placeholder: "empty = the response format's schema" },
+];
+
+export type EvalResult = { assertionId: string; label: string; passed: number; failure?: string };
+export type EvalRun = {
+  id: string;
+  at: string;
+  model: string;
+  runs: number;
+  completed: number;
+  results: EvalResult[];
+  errors: string[];
+  meanLatencyMs: number | null;
+  samples: string[];
+  stopped?: boolean;
+};
+export type Evals = { assertions: Assertion[]; history: EvalRun[] };
+
+export const EMPTY_EVALS: Evals = { assertions: [], history: [] };
+export const EVAL_HISTORY_LIMIT = 50;
+export const MAX_EVAL_RUNS = 100;
+const MAX_SAMPLES = 3;
+
+export const newAssertion = (kind: AssertionKind = "contains"): Assertion => ({ id: uuidv4(), kind, value: "" });
+
+export const describeAssertion = (a: Assertion) => {
+  if (a.kind === "contains") return `contains "${a.value}"`;
+  if (a.kind === "regex") return `matches /${a.value}/${a.flags || ""}`;
+  if (a.kind === "tool_call") return `calls ${a.value || "?"}${a.args?.trim() ? ` with ${a.args.trim()}` : ""}`;
+  return a.value.trim() ? "valid JSON for schema" : "valid JSON for the response format";
+};
+
+// Problems that make an assertion impossible to check, or null
+export const assertionError = (a: Assertion, responseFormat: ResponseFormat | null | undefined): string | null => {
+  if (a.kind !== "json_schema" && !a.value) return "Value is empty";
+  if (a.kind === "regex") {
+    try {
+      new RegExp(a.value, a.flags);
+    } catch (e) {
+      return `Invalid regex: ${(e as Error).message}`;
+    }
+  }
+  if (a.kind === "tool_call" && a.args?.trim()) {
+    try {
+      JSON.parse(a.args);
+    } catch {
+      return "Arguments are not valid JSON";
+    }
+  }
+  if (a.kind === "json_schema") {
+    if (!a.value.trim()) return responseSchema(responseFormat) ? null : "No schema given and the conversation has no response format";
+    try {
+      JSON.parse(a.value);
+    } catch {
+      return "Schema is not valid JSON";
+    }
+  }
+  return null;
+};
+
+// Objects match when every expected key matches; arrays element by element
+export const isSubset = (expected: unknown, actual: unknown): boolean => {
+  if (Array.isArray(expected)) return Array.isArray(actual) && expected.length === actual.length && expected.every((e, i) => isSubset(e, actual[i]));
+  if (isObject(expected)) {
+    return isObject(actual) && Object.entries(expected).every(([k, v]) => Object.hasOwn(actual, k) && isSubset(v, actual[k]));
+  }
+  return expected === actual;
+};
+
+const matchingCall = (a: Assertion, reply: Message | undefined) => {
+  const calls = (reply?.tool_calls || []).filter((tc) => tc.function?.name === a.value);
+  if (!calls.length) return { pass: false, detail: reply?.tool_calls?.length ? `Called ${reply.tool_calls.map((tc) => tc.function?.name).join(", ")} instead` : "No tool call" };
+  if (!a.args?.trim()) return { pass: true, detail: "" };
+  const expected = JSON.parse(a.args);
+  for (const tc of calls) {
+    try {
+      if (isSubset(expected, parseArguments(tc.function?.arguments))) return { pass: true, detail: "" };
+    } catch {
+      // arguments that aren't JSON never match
+    }
+  }
+  return { pass: false, detail: `Called with ${calls[0].function?.arguments || "{}"}` };
+};
+
+// One assertion against one assistant message
+export const checkAssertion = (a: Assertion, reply: Message | undefined, responseFormat: ResponseFormat | null | undefined): { pass: boolean; detail: string } => {
+  const error = assertionError(a, responseFormat);
+  if (error) return { pass: false, detail: error };
+  const text = contentText(reply?.content, true);
+  if (a.kind === "contains") return text.includes(a.value) ? { pass: true, detail: "" } : { pass: false, detail: `"${a.value}" not found` };
+  if (a.kind === "regex") return new RegExp(a.value, a.flags).test(text) ? { pass: true, detail: "" } : { pass: false, detail: "No match" };
+  if (a.kind === "tool_call") return matchingCall(a, reply);
+  const schema = a.value.trim() ? JSON.parse(a.value) : responseSchema(responseFormat);
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { pass: false, detail: "Reply is not valid JSON" };
+  }
+  const issues = validateValue(schema, value);
+  return issues.length ? { pass: false, detail: `${issues[0].path ? `${issues[0].path}: ` : ""}${issues[0].message}` } : { pass: true, detail: "" };
+};
+
+// What the model is asked to continue: a trailing assistant message is the
+// reference answer, not part of the prompt
+export const evalPrefix = (messages: Message[]) => (messages[messages.length - 1]?.role === "assistant" ? messages.slice(0, -1) : messages);
+
+const replyText = (m: Message) =>
+  [contentText(m.content), ...(m.tool_calls || []).map((tc) => `→ ${tc.function?.name || "?"}(${tc.function?.arguments ?? ""})`)].filter(Boolean).join("\n");
+
+// Runs are sent one after another so a local server isn't flooded. Failed
+// requests are listed in `errors` and left out of the pass rates.
+export const runEval = async ({
+  endpoint,
+  messages,
+  tools,
+  responseFormat,
+  assertions,
+  runs,
+  signal,
+  onProgress,
+}: {
+  endpoint: EndpointSettings;
+  messages: Message[];
+  tools: Tool[];
+  responseFormat: ResponseFormat | null | undefined;
+  assertions: Assertion[];
+  runs: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void;
+}): Promise<EvalRun> => {
+  const passed = assertions.map(() => 0);
+  const failures: (string | undefined)[] = assertions.map(() => undefined);
+  const errors = new Map<string, number>();
+  const samples: string[] = [];
+  let completed = 0;
+  let latency = 0;
+  let stopped = false;
+  for (let i = 0; i < runs; i++) {
+    if (signal?.aborted) {
+      stopped = true;
+      break;
+    }
+    try {
+      const { message, latencyMs } = await chatCompletion(endpoint, messages, tools, { signal, responseFormat });
+      completed++;
+      latency += latencyMs;
+      assertions.forEach((a, k) => {
+        const r = checkAssertion(a, message, responseFormat);
+        if (r.pass) passed[k]++;
+        else failures[k] ??= r.detail;
+      });
+      if (samples.length < MAX_SAMPLES) samples.push(replyText(message));
+    } catch (e) {
+      if (isAbort(e)) {
+        stopped = true;
+        break;
+      }
+      const msg = (e as Error)?.message || String(e);
+      errors.set(msg, (errors.get(msg) || 0) + 1);
+    }
+    onProgress?.(i + 1);
+  }
+  return {
+    id: uuidv4(),
+    at: nowIso(),
+    model: endpoint.model,
+    runs,
+    completed,
+    results: assertions.map((a, k) => ({ assertionId: a.id, label: describeAssertion(a), passed: passed[k], failure: failures[k] })),
+    errors: [...errors.entries()].map(([msg, n]) => (n > 1 ? `${msg} (×${n})` : msg)),
+    meanLatencyMs: completed ? latency / completed : null,
+    samples,
+    ...(stopped ? { stopped } : {}),
+  };
+};
+
+export const addEvalRun = (evals: Evals, run: EvalRun): Evals => ({ ...evals, history: [...evals.history, run].slice(-EVAL_HISTORY_LIMIT) });
+
+export const passRate = (r: EvalResult, run: EvalRun) => (run.completed ? r.passed / run.completed : null);
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { convertConversation } from "./formats";
+import { DEFAULT_TOOLS, buildExportedMessages } from "./utils";
+import type { Message } from "./messageFields";
+
+const messages: Message[] = [
+  { role: "system", content: "sys" },
+  { role: "user", content: "u" },
+  // arguments held as an object rather than a JSON string
+  { role: "assistant", content: null, tool_calls: [{ id: "t123", type: "function", function: { name: "f", arguments: JSON.parse('{"a": 1}') } }] },
+  { role: "tool", tool_call_id: "t123", name: "f", content: "{\"ok\":true}" },
+];
+
+describe("convertConversation (anthropic)", () => {
+  it("lifts the system prompt and wraps tool results", () => {
+    const payload = convertConversation("anthropic", buildExportedMessages(messages), DEFAULT_TOOLS).payload as { system: string; messages: { content: { type: string }[] }[] };
+    expect(payload.system).toBe("sys");
+    expect(payload.messages[2].content[0].type).toBe("tool_result");
+  });
+
+  it("reports an extra system message", () => {
+    const { warnings } = convertConversation("anthropic", buildExportedMessages([...messages, { role: "system", content: "again" }]), []);
+    expect(warnings.length).toBeGreaterThan(0);
+  });
+});
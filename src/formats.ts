@@ -0,0 +1,269 @@
+import { contentText, parseDataUrl, partLabel, toParts } from "./contentParts";
+import { SIGNATURE_KEY, extraFields, getReasoning } from "./messageFields";
+import { responseSchema } from "./responseFormat";
+import { isObject } from "./toolSchema";
+import type { ContentPart, MessageContent } from "./contentParts";
+import type { Message, ToolCall } from "./messageFields";
+import type { ResponseFormat } from "./responseFormat";
+import type { Tool } from "./toolSchema";
+
+// -------------------- Export formats --------------------
+// Converters from the editor's OpenAI-style messages (as produced by
+// buildExportedMessages) to other providers' request shapes. Each converter
+// returns the payload plus human-readable warnings for anything it could not
+// represent faithfully, so the caller can ask before writing a lossy file.
+
+export type ExportFormat = "openai-messages" | "openai-request" | "anthropic" | "gemini" | "sharegpt";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: "openai-messages", label: "OpenAI messages (array)" },
+  { id: "openai-request", label: "OpenAI request (messages + tools)" },
+  { id: "anthropic", label: "Anthropic Messages" },
+  { id: "gemini", label: "Gemini contents" },
+  { id: "sharegpt", label: "ShareGPT conversations" },
+];
+
+export type ConvertResult = { payload: unknown; warnings: string[] };
+
+// A content block, part or turn in the target format
+type Block = Record<string, unknown>;
+type Turn = { role: string; content?: Block[]; parts?: Block[] };
+
+// Text of string or part-list content; media parts are handled per format
+const textOf = (content: MessageContent | undefined) => contentText(content, true);
+
+const droppedMedia = (content: MessageContent | undefined, where: string, target: string, warnings: string[]) => {
+  for (const p of toParts(content)) if (p?.type !== "text") warnings.push(`${where}: ${partLabel(p)} can't be represented in ${target} and was dropped`);
+};
+
+// Extra fields (see messageFields.ts) only exist in OpenAI-style messages
+const droppedFields = (m: Message, where: string, target: string, warnings: string[]) => {
+  for (const k of Object.keys(extraFields(m))) if (k !== SIGNATURE_KEY) warnings.push(`${where}: field "${k}" can't be represented in ${target} and was dropped`);
+};
+
+const mediaSource = (p: ContentPart) => parseDataUrl(p.type === "image_url" ? p.image_url?.url : p.type === "file" ? p.file?.file_data : null);
+
+// Images (embedded or by URL) and PDF files map to Anthropic blocks
+const anthropicBlocks = (content: MessageContent | undefined, where: string, warnings: string[]) => {
+  const blocks: Block[] = [];
+  for (const p of toParts(content)) {
+    if (p?.type === "text") {
+      if (p.text) blocks.push({ type: "text", text: p.text });
+      continue;
+    }
+    const data = mediaSource(p);
+    if (p?.type === "image_url" && data) blocks.push({ type: "image", source: { type: "base64", media_type: data.mediaType, data: data.data } });
+    else if (p?.type === "image_url" && p.image_url?.url) blocks.push({ type: "image", source: { type: "url", url: p.image_url.url } });
+    else if (p?.type === "file" && data?.mediaType === "application/pdf") blocks.push({ type: "document", source: { type: "base64", media_type: data.mediaType, data: data.data } });
+    else warnings.push(`${where}: ${partLabel(p)} can't be represented in Anthropic Messages and was dropped`);
+  }
+  return blocks;
+};
+
+// Embedded media becomes inlineData; remote URLs can't be inlined
+const geminiParts = (content: MessageContent | undefined, where: string, warnings: string[]) => {
+  const parts: Block[] = [];
+  for (const p of toParts(content)) {
+    const data = mediaSource(p);
+    if (p?.type === "text") parts.push({ text: p.text ?? "" });
+    else if (data) parts.push({ inlineData: { mimeType: data.mediaType, data: data.data } });
+    else if (p?.type === "input_audio" && p.input_audio?.data) parts.push({ inlineData: { mimeType: `audio/${p.input_audio.format === "mp3" ? "mp3" : "wav"}`, data: p.input_audio.data } });
+    else warnings.push(`${where}: ${partLabel(p)} can't be represented in Gemini contents and was dropped`);
+  }
+  return parts.length ? parts : [{ text: "" }];
+};
+
+const parseArgs = (tc: ToolCall, warnings: string[]) => {
+  try {
+    const v: unknown = JSON.parse(tc.function?.arguments || "{}");
+    if (isObject(v)) return v;
+  } catch {
+    // fall through
+  }
+  warnings.push(`Arguments of tool call "${tc.id}" are not a JSON object; exported as {}`);
+  return {};
+};
+
+// Collect system messages into one string; anything but a single leading
+// system message is reported because the target format has one slot only.
+const collectSystem = (messages: Message[], warnings: string[]) => {
+  const systems = messages.map((m, i) => ({ m, i })).filter(({ m }) => m.role === "system");
+  if (systems.length > 1) warnings.push(`${systems.length} system messages were merged into one`);
+  else if (systems.length === 1 && systems[0].i !== 0) warnings.push(`System message #${systems[0].i + 1} was moved to the top-level system prompt`);
+  return systems.map(({ m }) => textOf(m.content)).filter(Boolean).join("\n\n");
+};
+
+// Join consecutive turns with the same role, as providers that require strict
+// alternation expect (e.g. several tool results inside one user turn).
+const mergeSameRole = (turns: Turn[], partsKey: "content" | "parts") => {
+  const out: Turn[] = [];
+  for (const t of turns) {
+    const last = out[out.length - 1];
+    if (last && last.role === t.role) last[partsKey] = [...(last[partsKey] || []), ...(t[partsKey] || [])];
+    else out.push({ ...t, [partsKey]: [...(t[partsKey] || [])] });
+  }
+  return out;
+};
+
+const toOpenAIRequest = (messages: Message[], tools: Tool[], responseFormat: ResponseFormat | null): ConvertResult => {
+  const payload: Block = { messages };
+  if (tools.length) payload.tools = tools;
+  if (responseFormat) payload.response_format = responseFormat;
+  return { payload, warnings: [] };
+};
+
+const toAnthropic = (messages: Message[], tools: Tool[]): ConvertResult => {
+  const warnings: string[] = [];
+  const system = collectSystem(messages, warnings);
+  const turns: Turn[] = [];
+  for (const [i, m] of messages.entries()) {
+    droppedFields(m, `Message #${i + 1}`, "Anthropic Messages", warnings);
+    if (m.role === "user") {
+      turns.push({ role: "user", content: anthropicBlocks(m.content, `Message #${i + 1}`, warnings) });
+    } else if (m.role === "assistant") {
+      const blocks: Block[] = [];
+      // thinking blocks are only accepted back with their signature
+      if (getReasoning(m) && m[SIGNATURE_KEY]) blocks.push({ type: "thinking", thinking: getReasoning(m), signature: m[SIGNATURE_KEY] });
+      else if (getReasoning(m)) warnings.push(`Message #${i + 1}: reasoning without a thinking signature can't be sent to Anthropic and was dropped`);
+      if (textOf(m.content)) blocks.push({ type: "text", text: textOf(m.content) });
+      for (const tc of m.tool_calls || []) {
+        blocks.push({ type: "tool_use", id: tc.id, name: tc.function?.name || "", input: parseArgs(tc, warnings) });
+      }
+      turns.push({ role: "assistant", content: blocks });
+    } else if (m.role === "tool") {
+      const content = Array.isArray(m.content) ? anthropicBlocks(m.content, `Message #${i + 1}`, warnings) : textOf(m.content);
+      turns.push({ role: "user", content: [{ type: "tool_result", tool_use_id: m.tool_call_id, content }] });
+    }
+  }
+  const merged = mergeSameRole(turns, "content").filter((t) => {
+    if (t.content?.length) return true;
+    warnings.push(`An empty ${t.role} turn was dropped`);
+    return false;
+  });
+  if (merged.length && merged[0].role !== "user") warnings.push("Anthropic expects the first message to be from the user");
+  const payload: Block = {};
+  if (system) payload.system = system;
+  payload.messages = merged;
+  if (tools.length) {
+    payload.tools = tools.map((t) => ({
+      name: t.function?.name || "",
+      description: t.function?.description || "",
+      input_schema: t.function?.parameters || { type: "object", properties: {} },
+    }));
+  }
+  return { payload, warnings };
+};
+
+const toGemini = (messages: Message[], tools: Tool[], responseFormat: ResponseFormat | null): ConvertResult => {
+  const warnings: string[] = [];
+  const system = collectSystem(messages, warnings);
+  const callNames = new Map<string | undefined, string>();
+  const turns: Turn[] = [];
+  let hasCalls = false;
+  for (const [i, m] of messages.entries()) {
+    droppedFields(m, `Message #${i + 1}`, "Gemini contents", warnings);
+    if (m.role === "user") {
+      turns.push({ role: "user", parts: geminiParts(m.content, `Message #${i + 1}`, warnings) });
+    } else if (m.role === "assistant") {
+      const parts: Block[] = [];
+      if (getReasoning(m)) parts.push({ text: getReasoning(m), thought: true });
+      if (textOf(m.content)) parts.push({ text: textOf(m.content) });
+      for (const tc of m.tool_calls || []) {
+        hasCalls = true;
+        callNames.set(tc.id, tc.function?.name || "");
+        parts.push({ functionCall: { name: tc.function?.name || "", args: parseArgs(tc, warnings) } });
+      }
+      turns.push({ role: "model", parts });
+    } else if (m.role === "tool") {
+      const name = m.name || callNames.get(m.tool_call_id) || "";
+      droppedMedia(m.content, `Message #${i + 1}`, "a Gemini function response", warnings);
+      if (!name) warnings.push(`Tool response for "${m.tool_call_id}" has no function name`);
+      let response: unknown;
+      try {
+        response = JSON.parse(textOf(m.content));
+      } catch {
+        response = undefined;
+      }
+      if (!isObject(response)) response = { content: textOf(m.content) };
+      turns.push({ role: "user", parts: [{ functionResponse: { name, response } }] });
+    }
+  }
+  if (hasCalls) warnings.push("Gemini has no tool call ids; calls and responses are matched by name and order");
+  const payload: Block = {};
+  if (system) payload.systemInstruction = { parts: [{ text: system }] };
+  payload.contents = mergeSameRole(turns, "parts");
+  const schema = responseSchema(responseFormat);
+  if (schema) payload.generationConfig = { responseMimeType: "application/json", responseJsonSchema: schema };
+  if (tools.length) {
+    payload.tools = [{
+      functionDeclarations: tools.map((t) => {
+        const decl: Block = { name: t.function?.name || "", description: t.function?.description || "" };
+        if (t.function?.parameters) decl.parameters = t.function.parameters;
+        return decl;
+      }),
+    }];
+  }
+  return { payload, warnings };
+};
+
+// ShareGPT as used by common fine-tuning toolkits: human/gpt turns plus
+// function_call/observation for tools, and `tools` as a JSON string.
+const toShareGPT = (messages: Message[], tools: Tool[]): ConvertResult => {
+  const warnings: string[] = [];
+  const system = collectSystem(messages, warnings);
+  const conversations: { from: string; value: string }[] = [];
+  let hasCalls = false;
+  for (const [i, m] of messages.entries()) {
+    droppedFields(m, `Message #${i + 1}`, "ShareGPT", warnings);
+    if (getReasoning(m)) warnings.push(`Message #${i + 1}: reasoning can't be represented in ShareGPT and was dropped`);
+    if (m.role === "user" || m.role === "tool") droppedMedia(m.content, `Message #${i + 1}`, "ShareGPT", warnings);
+    if (m.role === "user") conversations.push({ from: "human", value: textOf(m.content) });
+    else if (m.role === "assistant") {
+      const calls = m.tool_calls || [];
+      if (!calls.length) {
+        conversations.push({ from: "gpt", value: textOf(m.content) });
+        continue;
+      }
+      hasCalls = true;
+      if (textOf(m.content)) warnings.push("Assistant text sent alongside tool calls was dropped");
+      const fc = calls.map((tc) => ({ name: tc.function?.name || "", arguments: parseArgs(tc, warnings) }));
+      conversations.push({ from: "function_call", value: JSON.stringify(fc.length === 1 ? fc[0] : fc) });
+    } else if (m.role === "tool") {
+      const last = conversations[conversations.length - 1];
+      if (last?.from === "observation") {
+        warnings.push("Consecutive tool responses were merged into one observation");
+        last.value += "\n" + textOf(m.content);
+      } else conversations.push({ from: "observation", value: textOf(m.content) });
+    }
+  }
+  if (hasCalls) warnings.push("ShareGPT has no tool call ids; calls and observations are matched by order");
+  const payload: Block = { conversations };
+  if (system) payload.system = system;
+  if (tools.length) payload.tools = JSON.stringify(tools.map((t) => t.function));
+  return { payload, warnings };
+};
+
+const convert = (format: ExportFormat, messages: Message[], tools: Tool[], responseFormat: ResponseFormat | null): ConvertResult => {
+  switch (format) {
+    case "openai-request":
+      return toOpenAIRequest(messages, tools, responseFormat);
+    case "anthropic":
+      return toAnthropic(messages, tools);
+    case "gemini":
+      return toGemini(messages, tools, responseFormat);
+    case "sharegpt":
+      return toShareGPT(messages, tools);
+    default:
+      return { payload: messages, warnings: [] };
+  }
+};
+
+// `responseFormat` is the conversation's OpenAI response_format block (see
+// responseFormat.ts); only the OpenAI request and Gemini formats can carry it.
+export const convertConversation = (format: ExportFormat, messages: Message[], tools: Tool[], responseFormat: ResponseFormat | null = null): ConvertResult => {
+  const result = convert(format, messages, tools, responseFormat);
+  if (responseFormat && format !== "openai-request" && format !== "gemini") {
+    result.warnings.push(`The response format can't be represented in ${EXPORT_FORMATS.find((f) => f.id === format)?.label} and was dropped`);
+  }
+  return result;
+};
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { pushEntry } from "./history";
+import type { HistoryEntry } from "./history";
+
+describe("pushEntry", () => {
+  it("merges typing until a pause", () => {
+    const state = { name: "n", messages: [], tools: "[]", variables: {} };
+    const edit = (at: number) => ({ kind: "edit", convId: "c", label: "Edit", state, mergeKey: "msg:1", at }) as HistoryEntry;
+    const typed = [0, 300, 600].reduce((stack: HistoryEntry[], at) => pushEntry(stack, edit(at)), []);
+    expect(typed).toHaveLength(1);
+    expect(pushEntry(typed, edit(5000))).toHaveLength(2);
+  });
+});
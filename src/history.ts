@@ -0,0 +1,71 @@
+import { useCallback, useRef, useState } from "react";
+import type { Bindings } from "./templates";
+import type { Message } from "./messageFields";
+import type { ResponseFormat } from "./responseFormat";
+import type { Conversation } from "./storage";
+
+// -------------------- Undo / redo --------------------
+// A bounded stack of workspace states. Edits record the conversation's editor
+// state *before* the change; deletions record the removed conversations. Undo
+// pops an entry and pushes its inverse (built by the caller from the current
+// state) onto the redo stack, and vice versa.
+
+export type EditorState = { name: string; messages: Message[]; tools: string; variables: Bindings; responseFormat?: ResponseFormat | null };
+
+export type HistoryEntry =
+  | { kind: "edit"; convId: string; label: string; state: EditorState; mergeKey?: string; at: number }
+  | { kind: "delete"; label: string; items: { conversation: Conversation; index: number }[] }
+  | { kind: "restore"; label: string; items: { conversation: Conversation; index: number }[] };
+
+export const HISTORY_LIMIT = 100;
+// consecutive edits with the same merge key closer than this become one step
+export const MERGE_WINDOW_MS = 1000;
+
+export const pushEntry = (stack: HistoryEntry[], entry: HistoryEntry) => {
+  const top = stack[stack.length - 1];
+  if (
+    entry.kind === "edit" &&
+    top?.kind === "edit" &&
+    entry.mergeKey &&
+    top.mergeKey === entry.mergeKey &&
+    top.convId === entry.convId &&
+    entry.at - top.at < MERGE_WINDOW_MS
+  ) {
+    // keep the older "before" state, extend the window
+    return [...stack.slice(0, -1), { ...top, at: entry.at }];
+  }
+  return [...stack, entry].slice(-HISTORY_LIMIT);
+};
+
+export function useUndoHistory() {
+  const past = useRef<HistoryEntry[]>([]);
+  const future = useRef<HistoryEntry[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion((v) => v + 1);
+
+  const record = useCallback((entry: HistoryEntry) => {
+    past.current = pushEntry(past.current, entry);
+    future.current = [];
+    bump();
+  }, []);
+
+  const step = (from: { current: HistoryEntry[] }, to: { current: HistoryEntry[] }, inverse: (e: HistoryEntry) => HistoryEntry | null) => {
+    const entry = from.current[from.current.length - 1];
+    if (!entry) return null;
+    const inv = inverse(entry);
+    from.current = from.current.slice(0, -1);
+    if (inv) to.current = [...to.current, { ...inv, at: 0 } as HistoryEntry].slice(-HISTORY_LIMIT);
+    bump();
+    return entry;
+  };
+
+  return {
+    record,
+    undo: (inverse: (e: HistoryEntry) => HistoryEntry | null) => step(past, future, inverse),
+    redo: (inverse: (e: HistoryEntry) => HistoryEntry | null) => step(future, past, inverse),
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    undoLabel: past.current[past.current.length - 1]?.label,
+    redoLabel: future.current[future.current.length - 1]?.label,
+  };
+}
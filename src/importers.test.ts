@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { detectImport } from "./importers";
+
+describe("detectImport", () => {
+  it("detects and converts an anthropic payload", () => {
+    const imported = detectImport({
+      system: "sys",
+      messages: [{ role: "user", content: "u" }, { role: "assistant", content: [{ type: "tool_use", id: "x", name: "f", input: {} }] }],
+    });
+    expect(imported.format).toBe("anthropic");
+    expect(imported.messages[0].role).toBe("system");
+    expect(imported.messages[2].tool_calls?.[0].id).toBe("x");
+  });
+});
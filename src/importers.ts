@@ -0,0 +1,425 @@
+import { v4 as uuidv4 } from "uuid";
+import { isKnownPart } from "./contentParts";
+import { REASONING_KEY, SIGNATURE_KEY, extraFields } from "./messageFields";
+import { isResponseFormat } from "./responseFormat";
+import { isObject } from "./toolSchema";
+import type { WireToolCall } from "./api";
+import type { ContentPart } from "./contentParts";
+import type { Message, Role, ToolCall } from "./messageFields";
+import type { ResponseFormat } from "./responseFormat";
+import type { JsonSchema, Tool } from "./toolSchema";
+
+// -------------------- Import formats --------------------
+// Detects which provider shape a parsed JSON file has and converts it to the
+// editor's OpenAI-style messages + tools. Anything that can't be represented
+// is listed in `unmapped` so the import preview can show it before the
+// conversation is created.
+
+export type ImportFormat = "openai-messages" | "openai-request" | "anthropic" | "gemini" | "sharegpt" | "openai-responses";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  "openai-messages": "OpenAI messages array",
+  "openai-request": "OpenAI chat request",
+  anthropic: "Anthropic Messages",
+  gemini: "Gemini contents",
+  sharegpt: "ShareGPT conversations",
+  "openai-responses": "OpenAI Responses API items",
+};
+
+export type ImportResult = { format: ImportFormat; messages: Message[]; tools: Tool[] | null; responseFormat?: ResponseFormat | null; unmapped: string[] };
+
+const OPENAI_ROLES = ["system", "developer", "user", "assistant", "tool"];
+
+const str = (v: unknown) => (typeof v === "string" ? v : v == null ? "" : JSON.stringify(v));
+
+// Small helper so each converter can count repeated losses instead of
+// listing the same note once per message.
+const makeNotes = () => {
+  const counts = new Map<string, number>();
+  return {
+    add: (note: string) => counts.set(note, (counts.get(note) || 0) + 1),
+    list: () => [...counts.entries()].map(([note, n]) => (n > 1 ? `${note} (×${n})` : note)),
+  };
+};
+type Notes = ReturnType<typeof makeNotes>;
+
+const noteExtraKeys = (obj: object, known: string[], where: string, notes: Notes) => {
+  for (const k of Object.keys(obj)) if (!known.includes(k)) notes.add(`${where} field "${k}"`);
+};
+
+const partType = (p: unknown) => (isObject(p) && p.type) || "unknown";
+
+const textFromParts = (content: unknown, where: string, notes: Notes) => {
+  if (typeof content === "string" || content == null) return content ?? "";
+  if (!Array.isArray(content)) return str(content);
+  const texts: string[] = [];
+  for (const p of content as unknown[]) {
+    if (typeof p === "string") texts.push(p);
+    else if (isObject(p) && typeof p.text === "string") texts.push(p.text);
+    else notes.add(`${where} content part "${partType(p)}"`);
+  }
+  return texts.join("\n");
+};
+
+// User and tool messages keep their parts (see contentParts.ts); unknown
+// part types are dropped and noted.
+const keepParts = (content: unknown[], where: string, notes: Notes) =>
+  content.flatMap((p): ContentPart[] => {
+    if (typeof p === "string") return [{ type: "text", text: p }];
+    if (isKnownPart(p)) return [p];
+    notes.add(`${where} content part "${partType(p)}"`);
+    return [];
+  });
+
+const functionTool = (name: string | undefined, description: string | undefined, parameters: JsonSchema | undefined): Tool => {
+  const fn: Tool["function"] = { name: name || "" };
+  if (description) fn.description = description;
+  if (parameters) fn.parameters = parameters;
+  return { type: "function", function: fn };
+};
+
+// Pairs id-less function calls (Gemini, ShareGPT) with their responses by
+// name, falling back to the oldest unanswered call.
+const makeCallQueue = () => {
+  const pending: { id: string; name: string }[] = [];
+  return {
+    open: (name: string) => {
+      const id = `call_${uuidv4().slice(0, 8)}`;
+      pending.push({ id, name });
+      return id;
+    },
+    close: (name?: string) => {
+      const i = name ? pending.findIndex((p) => p.name === name) : 0;
+      const [hit] = pending.splice(i >= 0 ? i : 0, 1);
+      return hit;
+    },
+  };
+};
+
+// Tools as files list them: chat completions nest the function, the Responses
+// API and some ShareGPT files put its fields on the tool itself
+type ToolEntry = { type?: string; function?: unknown; name?: string; description?: string; parameters?: JsonSchema };
+
+// ---- OpenAI chat completions ----
+type OpenAIMessage = { role: Role; content?: unknown; tool_calls?: WireToolCall[]; tool_call_id?: string; name?: string; [key: string]: unknown };
+
+const normalizeOpenAIMessage = (m: OpenAIMessage, i: number, notes: Notes) => {
+  const where = `Message #${i + 1}`;
+  let role = m.role;
+  if (role === "developer") {
+    notes.add(`"developer" role imported as system`);
+    role = "system";
+  }
+  // fields the editor has no control for are kept as extra fields
+  const out: Message = { role, ...extraFields({ ...m, role } as Message) };
+  if (role === "assistant") {
+    if (typeof m[REASONING_KEY] === "string" && m[REASONING_KEY]) out[REASONING_KEY] = m[REASONING_KEY];
+    out.content = m.content == null ? null : textFromParts(m.content, where, notes);
+    if (Array.isArray(m.tool_calls)) {
+      out.tool_calls = m.tool_calls.map((tc) => ({
+        id: tc.id || uuidv4(),
+        type: tc.type || "function",
+        function: { name: tc.function?.name || "", arguments: typeof tc.function?.arguments === "string" ? tc.function.arguments : JSON.stringify(tc.function?.arguments ?? {}) },
+      }));
+    }
+  } else if ((role === "user" || role === "tool") && Array.isArray(m.content)) {
+    out.content = keepParts(m.content, where, notes);
+  } else {
+    out.content = textFromParts(m.content, where, notes);
+  }
+  if (role === "tool") out.tool_call_id = m.tool_call_id || "";
+  if (m.name && role === "tool") out.name = m.name;
+  return out;
+};
+
+const fromOpenAIMessages = (msgs: OpenAIMessage[], notes: Notes) => msgs.map((m, i) => normalizeOpenAIMessage(m, i, notes));
+
+const fromOpenAITools = (tools: unknown, notes: Notes) => {
+  if (!Array.isArray(tools)) return null;
+  return (tools as ToolEntry[]).flatMap((t) => {
+    if (t?.type === "function" && isObject(t.function)) return [t as Tool];
+    // Responses API uses flat function tools
+    if (t?.type === "function" && t.name) return [functionTool(t.name, t.description, t.parameters)];
+    notes.add(`Tool of type "${t?.type || "unknown"}"`);
+    return [];
+  });
+};
+
+// Only JSON Schema formats have a schema to keep; "json_object" and "text" don't
+const fromResponseFormat = (rf: unknown, notes: Notes) => {
+  if (rf === undefined || rf === null) return null;
+  if (isResponseFormat(rf)) return rf;
+  notes.add(`response_format of type "${partType(rf)}"`);
+  return null;
+};
+
+// ---- Anthropic Messages ----
+// The fields of the block types read here; which are set depends on `type`
+type AnthropicBlock = { type: string; text: string; thinking?: string; signature?: string; id: string; name: string; input?: unknown; tool_use_id: string; content?: unknown; is_error?: boolean };
+type AnthropicTool = { type?: string; name: string; description?: string; input_schema?: JsonSchema };
+type AnthropicBody = { system?: unknown; messages: { role: "user" | "assistant"; content?: string | AnthropicBlock[] }[]; tools?: AnthropicTool[] };
+
+const fromAnthropic = (body: AnthropicBody, notes: Notes): { messages: Message[]; tools: Tool[] | null } => {
+  const messages: Message[] = [];
+  if (body.system) messages.push({ role: "system", content: textFromParts(body.system, "System", notes) });
+  const names = new Map<string, string>();
+  body.messages.forEach((m, i) => {
+    const where = `Message #${i + 1}`;
+    if (typeof m.content === "string") {
+      messages.push({ role: m.role, content: m.content });
+      return;
+    }
+    const texts: string[] = [];
+    const thinking: string[] = [];
+    let signature = "";
+    const calls: ToolCall[] = [];
+    const results: Message[] = [];
+    for (const b of m.content || []) {
+      if (b.type === "text") texts.push(b.text);
+      else if (b.type === "thinking" && m.role === "assistant") {
+        thinking.push(b.thinking ?? "");
+        signature = b.signature || signature;
+      } else if (b.type === "tool_use") {
+        names.set(b.id, b.name);
+        calls.push({ id: b.id, type: "function", function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } });
+      } else if (b.type === "tool_result") {
+        const content = typeof b.content === "string" ? b.content : textFromParts(b.content, where, notes);
+        const r: Message = { role: "tool", tool_call_id: b.tool_use_id, content };
+        if (names.has(b.tool_use_id)) r.name = names.get(b.tool_use_id);
+        if (b.is_error) notes.add(`${where} tool_result "is_error" flag`);
+        results.push(r);
+      } else notes.add(`${where} "${b.type}" block`);
+    }
+    // tool results must directly follow the assistant call they answer
+    messages.push(...results);
+    if (m.role === "assistant") {
+      const a: Message = { role: "assistant", content: texts.length ? texts.join("\n") : null };
+      if (thinking.length) a[REASONING_KEY] = thinking.join("\n");
+      if (signature) a[SIGNATURE_KEY] = signature;
+      if (calls.length) a.tool_calls = calls;
+      messages.push(a);
+    } else if (texts.length || !results.length) messages.push({ role: m.role, content: texts.join("\n") });
+  });
+  const tools = Array.isArray(body.tools)
+    ? body.tools.flatMap((t) => {
+        if (t.input_schema || !t.type || t.type === "custom") return [functionTool(t.name, t.description, t.input_schema)];
+        notes.add(`Server tool "${t.name || t.type}"`);
+        return [];
+      })
+    : null;
+  return { messages, tools };
+};
+
+// ---- Gemini ----
+type GeminiCall = { id?: string; name: string; args?: unknown };
+type GeminiResponse = { id?: string; name: string; response?: unknown };
+type GeminiPart = { text?: string; thought?: boolean; functionCall?: GeminiCall; function_call?: GeminiCall; functionResponse?: GeminiResponse; function_response?: GeminiResponse };
+type GeminiDeclaration = { name: string; description?: string; parameters?: JsonSchema };
+type GeminiTool = { functionDeclarations?: GeminiDeclaration[]; function_declarations?: GeminiDeclaration[] };
+type GeminiSystem = string | { parts?: unknown };
+type GeminiBody = { systemInstruction?: GeminiSystem; system_instruction?: GeminiSystem; contents: { role?: string; parts?: GeminiPart[] }[]; tools?: GeminiTool[] };
+
+const fromGemini = (body: GeminiBody, notes: Notes): { messages: Message[]; tools: Tool[] | null } => {
+  const messages: Message[] = [];
+  const sys = body.systemInstruction || body.system_instruction;
+  if (sys) messages.push({ role: "system", content: textFromParts(typeof sys === "string" ? sys : sys.parts, "System", notes) });
+  const queue = makeCallQueue();
+  body.contents.forEach((c, i) => {
+    const where = `Content #${i + 1}`;
+    const texts: string[] = [];
+    const thoughts: string[] = [];
+    const calls: ToolCall[] = [];
+    const results: Message[] = [];
+    for (const p of c.parts || []) {
+      const call = p.functionCall || p.function_call;
+      const resp = p.functionResponse || p.function_response;
+      if (typeof p.text === "string" && p.thought && c.role === "model") thoughts.push(p.text);
+      else if (typeof p.text === "string") texts.push(p.text);
+      else if (call) calls.push({ id: call.id || queue.open(call.name), type: "function", function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) } });
+      else if (resp) {
+        const id = resp.id || queue.close(resp.name)?.id || "";
+        results.push({ role: "tool", tool_call_id: id, name: resp.name, content: JSON.stringify(resp.response ?? {}) });
+      } else notes.add(`${where} part "${Object.keys(p)[0] || "unknown"}"`);
+    }
+    messages.push(...results);
+    if (c.role === "model") {
+      const a: Message = { role: "assistant", content: texts.length ? texts.join("\n") : null };
+      if (thoughts.length) a[REASONING_KEY] = thoughts.join("\n");
+      if (calls.length) a.tool_calls = calls;
+      messages.push(a);
+    } else if (texts.length) messages.push({ role: "user", content: texts.join("\n") });
+  });
+  let tools: Tool[] | null = null;
+  if (Array.isArray(body.tools)) {
+    tools = [];
+    for (const t of body.tools) {
+      const decls = t.functionDeclarations || t.function_declarations;
+      if (Array.isArray(decls)) tools.push(...decls.map((d) => functionTool(d.name, d.description, d.parameters)));
+      else notes.add(`Gemini tool "${Object.keys(t)[0] || "unknown"}"`);
+    }
+  }
+  return { messages, tools };
+};
+
+// ---- ShareGPT ----
+type ShareGPTTurn = { from: string; value: string };
+type ShareGPTCall = { name: string; arguments?: unknown };
+type ShareGPTBody = { conversations?: ShareGPTTurn[]; messages?: ShareGPTTurn[]; system?: unknown; tools?: unknown };
+
+const SHAREGPT_ROLES: Record<string, Role | "call"> = { system: "system", human: "user", user: "user", gpt: "assistant", assistant: "assistant", model: "assistant", function_call: "call", observation: "tool", tool: "tool", function: "tool" };
+
+const fromShareGPT = (body: ShareGPTBody, notes: Notes): { messages: Message[]; tools: Tool[] | null } => {
+  const turns = body.conversations || body.messages || [];
+  const messages: Message[] = [];
+  if (typeof body.system === "string" && body.system) messages.push({ role: "system", content: body.system });
+  const queue = makeCallQueue();
+  turns.forEach((t, i) => {
+    const role = SHAREGPT_ROLES[t.from];
+    if (!role) {
+      notes.add(`Turn #${i + 1} from "${t.from}"`);
+      return;
+    }
+    if (role === "call") {
+      let parsed: ShareGPTCall | ShareGPTCall[];
+      try {
+        parsed = JSON.parse(t.value);
+      } catch {
+        notes.add(`Turn #${i + 1} function_call is not JSON`);
+        return;
+      }
+      const calls = (Array.isArray(parsed) ? parsed : [parsed]).map((c) => ({
+        id: queue.open(c.name),
+        type: "function",
+        function: { name: c.name || "", arguments: typeof c.arguments === "string" ? c.arguments : JSON.stringify(c.arguments ?? {}) },
+      }));
+      messages.push({ role: "assistant", content: null, tool_calls: calls });
+    } else if (role === "tool") {
+      const hit = queue.close();
+      const m: Message = { role: "tool", tool_call_id: hit?.id || "", content: str(t.value) };
+      if (hit?.name) m.name = hit.name;
+      messages.push(m);
+    } else messages.push({ role, content: str(t.value) });
+  });
+  let tools: Tool[] | null = null;
+  if (body.tools) {
+    let raw: unknown = body.tools;
+    if (typeof raw === "string") {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        notes.add("tools field is not valid JSON");
+        raw = null;
+      }
+    }
+    if (Array.isArray(raw)) tools = (raw as ToolEntry[]).map((t) => (t?.type === "function" && t.function ? (t as Tool) : functionTool(t.name, t.description, t.parameters)));
+  }
+  return { messages, tools };
+};
+
+// ---- OpenAI Responses API ----
+type ResponsesItem = { type?: string; role?: string; content?: unknown; summary?: { text?: string }[]; id?: string; call_id?: string; name?: string; arguments?: unknown; output?: unknown };
+
+const fromResponses = (items: ResponsesItem[], instructions: unknown, notes: Notes): Message[] => {
+  const messages: Message[] = [];
+  if (typeof instructions === "string" && instructions) messages.push({ role: "system", content: instructions });
+  const names = new Map<string | undefined, string | undefined>();
+  // a reasoning item's summary goes to the assistant message that follows it
+  let reasoning = "";
+  const assistant = (m: Message) => {
+    if (reasoning) m[REASONING_KEY] = reasoning;
+    reasoning = "";
+    return m;
+  };
+  items.forEach((it, i) => {
+    const type = it.type || (it.role ? "message" : "");
+    if (type === "message") {
+      const role = (it.role === "developer" ? "system" : it.role) as Role;
+      const m: Message = { role, content: textFromParts(it.content, `Item #${i + 1}`, notes) };
+      messages.push(role === "assistant" ? assistant(m) : m);
+    } else if (type === "reasoning") {
+      const summary = Array.isArray(it.summary) ? it.summary.map((p) => p?.text || "").filter(Boolean).join("\n") : "";
+      if (summary) reasoning = reasoning ? `${reasoning}\n${summary}` : summary;
+      else notes.add("Reasoning item without a summary");
+    } else if (type === "function_call") {
+      names.set(it.call_id, it.name);
+      const call: ToolCall = { id: it.call_id || it.id || uuidv4(), type: "function", function: { name: it.name || "", arguments: str(it.arguments ?? "{}") } };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant" && !last.content && !reasoning) last.tool_calls = [...(last.tool_calls || []), call];
+      else if (last?.role === "assistant" && !last.tool_calls && !reasoning) last.tool_calls = [call];
+      else messages.push(assistant({ role: "assistant", content: null, tool_calls: [call] }));
+    } else if (type === "function_call_output") {
+      const m: Message = { role: "tool", tool_call_id: it.call_id || "", content: str(it.output) };
+      if (names.has(it.call_id)) m.name = names.get(it.call_id);
+      messages.push(m);
+    } else notes.add(`Item of type "${type || "unknown"}"`);
+  });
+  return messages;
+};
+
+const hasType = (v: unknown, types: string[]) => isObject(v) && typeof v.type === "string" && types.includes(v.type);
+
+const looksLikeOpenAIMessage = (m: unknown) => isObject(m) && typeof m.role === "string" && OPENAI_ROLES.includes(m.role) && !("type" in m);
+const looksLikeResponsesItem = (m: unknown) => hasType(m, ["message", "function_call", "function_call_output", "reasoning"]);
+const looksLikeShareGPTTurn = (m: unknown) => isObject(m) && "from" in m && "value" in m;
+const hasAnthropicBlocks = (msgs: unknown[]) =>
+  msgs.some((m) => isObject(m) && Array.isArray(m.content) && m.content.some((b) => hasType(b, ["tool_use", "tool_result", "thinking"])));
+
+const REQUEST_KEYS: Record<ImportFormat, string[]> = {
+  "openai-messages": [],
+  "openai-request": ["messages", "tools", "response_format"],
+  anthropic: ["messages", "tools", "system"],
+  gemini: ["contents", "tools", "systemInstruction", "system_instruction"],
+  sharegpt: ["conversations", "messages", "tools", "system"],
+  "openai-responses": ["input", "output", "instructions", "tools"],
+};
+
+// Throws when the structure is not recognised.
+export const detectImport = (parsed: unknown): ImportResult => {
+  const notes = makeNotes();
+  const done = (format: ImportFormat, messages: Message[], tools: Tool[] | null, responseFormat: ResponseFormat | null = null): ImportResult => {
+    if (isObject(parsed)) noteExtraKeys(parsed, REQUEST_KEYS[format], "Top-level", notes);
+    return { format, messages, tools, responseFormat, unmapped: notes.list() };
+  };
+
+  if (Array.isArray(parsed)) {
+    if (parsed.some(looksLikeResponsesItem)) return done("openai-responses", fromResponses(parsed, null, notes), null);
+    if (parsed.length && parsed.every(looksLikeShareGPTTurn)) {
+      const r = fromShareGPT({ conversations: parsed as ShareGPTTurn[] }, notes);
+      return done("sharegpt", r.messages, r.tools);
+    }
+    if (parsed.length && parsed.every((c) => isObject(c) && Array.isArray(c.parts))) {
+      const r = fromGemini({ contents: parsed as GeminiBody["contents"] }, notes);
+      return done("gemini", r.messages, r.tools);
+    }
+    if (hasAnthropicBlocks(parsed)) {
+      const r = fromAnthropic({ messages: parsed as AnthropicBody["messages"] }, notes);
+      return done("anthropic", r.messages, r.tools);
+    }
+    if (parsed.every(looksLikeOpenAIMessage)) return done("openai-messages", fromOpenAIMessages(parsed as OpenAIMessage[], notes), null);
+    throw new Error("Unrecognised message array");
+  }
+  if (!isObject(parsed)) throw new Error("Expected a JSON object or array");
+
+  if (Array.isArray(parsed.contents)) {
+    const r = fromGemini(parsed as GeminiBody, notes);
+    return done("gemini", r.messages, r.tools);
+  }
+  const turns = parsed.conversations || parsed.messages;
+  if (Array.isArray(turns) && turns.length && turns.every(looksLikeShareGPTTurn)) {
+    const r = fromShareGPT(parsed as ShareGPTBody, notes);
+    return done("sharegpt", r.messages, r.tools);
+  }
+  if (Array.isArray(parsed.input) || Array.isArray(parsed.output) || (typeof parsed.input === "string" && "instructions" in parsed)) {
+    const items = typeof parsed.input === "string" ? [{ role: "user", content: parsed.input }] : parsed.input || parsed.output;
+    return done("openai-responses", fromResponses(items as ResponsesItem[], parsed.instructions, notes), fromOpenAITools(parsed.tools, notes));
+  }
+  if (Array.isArray(parsed.messages)) {
+    const anthropicTools = Array.isArray(parsed.tools) && parsed.tools.some((t) => isObject(t) && "input_schema" in t);
+    if ("system" in parsed || anthropicTools || hasAnthropicBlocks(parsed.messages)) {
+      const r = fromAnthropic(parsed as AnthropicBody, notes);
+      return done("anthropic", r.messages, r.tools);
+    }
+    return done("openai-request", fromOpenAIMessages(parsed.messages as OpenAIMessage[], notes), fromOpenAITools(parsed.tools, notes), fromResponseFormat(parsed.response_format, notes));
+  }
+  throw new Error("Unrecognised conversation format");
+};
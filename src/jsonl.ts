@@ -0,0 +1,32 @@
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+
+// -------------------- JSONL datasets --------------------
+// One JSON value per line, as used by fine-tuning corpora. Parsing never
+// throws: malformed lines are collected with their 1-based line numbers.
+
+export type JSONLLine = { line: number; value: unknown };
+export type JSONLError = { line: number; message: string };
+
+export const toJSONL = (records: unknown[]) => records.map((r) => JSON.stringify(r)).join("\n") + "\n";
+
+export const parseJSONL = (text: string): { records: JSONLLine[]; errors: JSONLError[] } => {
+  const records: JSONLLine[] = [];
+  const errors: JSONLError[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    try {
+      records.push({ line: i + 1, value: JSON.parse(raw) });
+    } catch (e) {
+      errors.push({ line: i + 1, message: (e as Error).message || "Invalid JSON" });
+    }
+  });
+  return { records, errors };
+};
+
+// OpenAI fine-tuning record for one conversation
+export const toFineTuningRecord = (messages: Message[], tools: Tool[]) => {
+  const record: { messages: Message[]; tools?: Tool[] } = { messages };
+  if (Array.isArray(tools) && tools.length) record.tools = tools;
+  return record;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { lintConversation } from "./lint";
+import type { Message } from "./messageFields";
+
+describe("lintConversation", () => {
+  it("finds no issues in a well-formed conversation", () => {
+    const messages: Message[] = [
+      { role: "system", content: "sys" },
+      { role: "user", content: "u" },
+      { role: "assistant", content: null, tool_calls: [{ id: "t123", type: "function", function: { name: "f", arguments: "{\"a\":1}" } }] },
+      { role: "tool", tool_call_id: "t123", name: "f", content: "{\"ok\":true}" },
+    ];
+    expect(lintConversation(messages)).toHaveLength(0);
+  });
+
+  it("flags an orphan tool response", () => {
+    const issues = lintConversation([{ role: "user", content: "u" }, { role: "tool", tool_call_id: "nope", content: "" }]);
+    expect(issues.some((i) => i.code === "orphan-tool-response" && i.index === 1)).toBe(true);
+  });
+
+  it("counts empty part lists as empty assistant turns", () => {
+    const issues = lintConversation([
+      { role: "user", content: "u" },
+      { role: "assistant", content: [] },
+      { role: "assistant", content: [{ type: "text", text: " " }] },
+    ]);
+    expect(issues.filter((i) => i.code === "empty-assistant")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Message } from "./messageFields";
+
+// -------------------- Conversation linter --------------------
+// Structural checks over the message list. Each issue points at the message
+// index it belongs to so the UI can badge the card and jump to it.
+
+export type LintSeverity = "error" | "warning";
+export type LintIssue = { severity: LintSeverity; code: string; message: string; index: number };
+
+// a part list needs at least one part that isn't blank text
+const hasText = (content: unknown): boolean => {
+  if (typeof content === "string") return content.trim().length > 0;
+  if (Array.isArray(content)) return content.some((p) => p?.type !== "text" || hasText(p.text));
+  return content != null;
+};
+
+export const countErrors = (issues: LintIssue[]) => issues.filter((i) => i.severity === "error").length;
+
+export const lintConversation = (messages: Message[]): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const push = (index: number, severity: LintSeverity, code: string, message: string) => issues.push({ severity, code, message, index });
+
+  // first pass: where each tool call id is declared
+  const callIndex = new Map<string, number>();
+  messages.forEach((m, i) => {
+    if (m.role !== "assistant" || !Array.isArray(m.tool_calls)) return;
+    for (const tc of m.tool_calls) {
+      if (!tc?.id) continue;
+      if (callIndex.has(tc.id)) push(i, "error", "duplicate-call-id", `Tool call id "${tc.id}" is already used by message #${callIndex.get(tc.id)! + 1}`);
+      else callIndex.set(tc.id, i);
+    }
+  });
+
+  const answered = new Map<string, number>();
+  messages.forEach((m, i) => {
+    const prev = messages[i - 1];
+
+    if (m.role === "system" && i > 0) push(i, "warning", "system-not-first", "System message is not the first message");
+    if (prev && prev.role === m.role && m.role !== "tool") push(i, "warning", "consecutive-role", `Consecutive ${m.role} messages`);
+
+    if (m.role === "assistant") {
+      const calls = Array.isArray(m.tool_calls) ? m.tool_calls : [];
+      if (!hasText(m.content) && calls.length === 0) push(i, "error", "empty-assistant", "Assistant turn has no content and no tool calls");
+    }
+
+    if (m.role === "tool") {
+      const id = m.tool_call_id || "";
+      const at = callIndex.get(id);
+      if (!id) push(i, "error", "missing-tool-call-id", "Tool response has no tool_call_id");
+      else if (at === undefined) push(i, "error", "orphan-tool-response", `tool_call_id "${id}" matches no assistant tool call`);
+      else if (at > i) push(i, "error", "response-before-call", `Tool response comes before its call in message #${at + 1}`);
+      if (id && answered.has(id)) push(i, "warning", "duplicate-tool-response", `Tool call "${id}" was already answered by message #${answered.get(id)! + 1}`);
+      else if (id) answered.set(id, i);
+    }
+  });
+
+  // calls that never get an answer; a trailing assistant turn may legitimately end on a call
+  const lastNonTool = messages.reduce((acc, m, i) => (m.role !== "tool" ? i : acc), -1);
+  messages.forEach((m, i) => {
+    if (m.role !== "assistant" || !Array.isArray(m.tool_calls)) return;
+    for (const tc of m.tool_calls) {
+      if (!tc?.id || answered.has(tc.id) || callIndex.get(tc.id) !== i) continue;
+      const name = tc.function?.name ? ` (${tc.function.name})` : "";
+      if (i === lastNonTool) push(i, "warning", "unanswered-call", `Tool call "${tc.id}"${name} has no response yet`);
+      else push(i, "error", "unanswered-call", `Tool call "${tc.id}"${name} never gets a response`);
+    }
+  });
+
+  return issues.sort((a, b) => a.index - b.index);
+};
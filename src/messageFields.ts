@@ -0,0 +1,64 @@
+import type { MessageContent } from "./contentParts";
+import type { Branch } from "./branches";
+
+// -------------------- Message fields --------------------
+// The cards edit role, content, tool calls, the tool id/name of tool
+// responses and reasoning. Any other field a message arrives with (`name` on
+// a user turn, `refusal`, `cache_control`, provider metadata, ...) is kept as
+// it is, shown as "Extra fields" and exported unchanged. Keys starting with
+// "_" belong to the editor (_id, _branches) and never leave it.
+//
+// Reasoning ("thinking") text is stored in `reasoning_content`, the field
+// DeepSeek, vLLM and others return. Anthropic thinking blocks keep their
+// signature in `thinking_signature` so they can be exported back.
+
+export const REASONING_KEY = "reasoning_content";
+export const SIGNATURE_KEY = "thinking_signature";
+
+export type Role = "system" | "developer" | "user" | "assistant" | "tool";
+export type ToolCall = { id: string; type: string; function: { name: string; arguments: string } };
+
+export type Message = {
+  role: Role;
+  content?: MessageContent;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+  reasoning_content?: string;
+  refusal?: string;
+  _id?: string;
+  _branches?: (Branch | null)[];
+  _branch?: number;
+  [key: string]: unknown;
+};
+
+const EDITED_KEYS = ["role", "content", "tool_calls", "tool_call_id", REASONING_KEY];
+
+const editedKeys = (role: string) => (role === "tool" ? [...EDITED_KEYS, "name"] : EDITED_KEYS);
+
+export const isInternalKey = (key: string) => key.startsWith("_");
+
+const isExtraKey = (role: string, key: string) => !isInternalKey(key) && !editedKeys(role).includes(key);
+
+export const extraFields = (m: Message): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(m).filter(([k]) => isExtraKey(m.role, k)));
+
+// Replaces all extra fields; keys the cards edit are ignored
+export const setExtraFields = (m: Message, extra: Record<string, unknown>) =>
+  ({
+    ...Object.fromEntries(Object.entries(m).filter(([k]) => !isExtraKey(m.role, k))),
+    ...Object.fromEntries(Object.entries(extra).filter(([k]) => isExtraKey(m.role, k))),
+  }) as Message;
+
+export const getReasoning = (m: Message | undefined) => (typeof m?.[REASONING_KEY] === "string" ? m[REASONING_KEY] : "");
+
+export const setReasoning = (m: Message, text: string): Message => {
+  const { [REASONING_KEY]: _old, ...rest } = m;
+  return text ? { ...rest, [REASONING_KEY]: text } : rest;
+};
+
+// Removes reasoning and its signature (export with reasoning turned off)
+export const stripReasoning = (m: Message): Message => {
+  const { [REASONING_KEY]: _text, [SIGNATURE_KEY]: _sig, ...rest } = m;
+  return rest;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { insertToolResponses, renderMockTemplate, stripScriptMocks } from "./mocks";
+import { emptyTool } from "./toolSchema";
+import type { Message } from "./messageFields";
+
+describe("renderMockTemplate", () => {
+  it("keeps JSON valid and typed", () => {
+    expect(renderMockTemplate('{"q": "{{args.q}}", "n": "{{args.n}}"}', { q: 'a"b', n: 2 })).toBe('{"q": "a\\"b", "n": 2}');
+  });
+});
+
+describe("insertToolResponses", () => {
+  const call: Message = { role: "assistant", tool_calls: [{ id: "a", type: "function", function: { name: "f", arguments: "{}" } }] };
+  const response: Message = { role: "tool", tool_call_id: "a", content: "{}" };
+
+  it("merges responses after their call", () => {
+    const merged = insertToolResponses([call, { role: "user", content: "typed meanwhile" }], [response]);
+    expect(merged.filled).toBe(1);
+    expect(merged.messages[1]).toBe(response);
+    expect(merged.messages[2].content).toBe("typed meanwhile");
+  });
+
+  it("doesn't fill answered calls twice", () => {
+    expect(insertToolResponses([call, response], [response]).filled).toBe(0);
+  });
+});
+
+describe("stripScriptMocks", () => {
+  it("only strips script mocks", () => {
+    const tools = stripScriptMocks([
+      { ...emptyTool(), x_mock: { kind: "script", source: "" } },
+      { ...emptyTool(), x_mock: { kind: "template", source: "" } },
+    ]);
+    expect(tools[0]).not.toHaveProperty("x_mock");
+    expect(tools[1]).toHaveProperty("x_mock");
+  });
+});
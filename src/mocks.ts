@@ -0,0 +1,222 @@
+import { v4 as uuidv4 } from "uuid";
+import { VARIABLE_RE } from "./templates";
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+
+// -------------------- Mock tools --------------------
+// A tool can carry a mock under `x_mock` that computes a response from a
+// call's arguments, so tool messages don't have to be written by hand. It
+// lives on the tool definition (and so in storage, backups and share links)
+// but is stripped from everything sent to a model or exported.
+//
+//   template: JSON or text with {{args.location}} placeholders
+//   script:   a JavaScript function body run in a sandboxed Worker with
+//             `args` in scope; left out of share links
+
+export const MOCK_KEY = "x_mock";
+export const MOCK_TIMEOUT_MS = 1000;
+
+export type MockKind = "template" | "script";
+export type ToolMock = { kind: MockKind; source: string };
+
+export const getMock = (tool: Tool | undefined): ToolMock | null => {
+  const m = tool?.[MOCK_KEY] as ToolMock | undefined;
+  return m && (m.kind === "template" || m.kind === "script") && typeof m.source === "string" ? m : null;
+};
+
+export const setMock = (tool: Tool, mock: ToolMock | null): Tool => {
+  const { [MOCK_KEY]: _old, ...rest } = tool;
+  return mock ? { ...rest, [MOCK_KEY]: mock } : rest;
+};
+
+export const stripMocks = (tools: Tool[]) => tools.map((t) => (t && typeof t === "object" && MOCK_KEY in t ? setMock(t, null) : t));
+
+// Script mocks are code: they don't travel in share links, where whoever
+// opens the link would run the sender's script
+export const stripScriptMocks = (tools: Tool[]) => tools.map((t) => (getMock(t)?.kind === "script" ? setMock(t, null) : t));
+
+// ---- template ----
+
+const lookup = (path: string, scope: unknown) =>
+  path.split(".").reduce<unknown>((v, k) => (v != null && typeof v === "object" ? (v as Record<string, unknown>)[k] : undefined), scope);
+
+const asText = (v: unknown) => (typeof v === "string" ? v : JSON.stringify(v));
+
+// In a JSON template a placeholder that is a whole string ("{{args.days}}")
+// takes the argument's JSON value, and one inside a longer string is escaped
+// so the result stays valid JSON. Text templates are filled in verbatim.
+// Unknown paths are left as they are.
+export const renderMockTemplate = (source: string, args: unknown) => {
+  const scope = { args };
+  const has = (path: string) => lookup(path, scope) !== undefined;
+  let isJSON = true;
+  try {
+    JSON.parse(source.replace(VARIABLE_RE, "0"));
+  } catch {
+    isJSON = false;
+  }
+  if (!isJSON) return source.replace(VARIABLE_RE, (whole, path) => (has(path) ? asText(lookup(path, scope)) : whole));
+  const wholeString = new RegExp(`"${VARIABLE_RE.source}"`, "y");
+  const placeholder = new RegExp(VARIABLE_RE.source, "y");
+  const at = (re: RegExp, i: number) => {
+    re.lastIndex = i;
+    const m = re.exec(source);
+    return m && has(m[1]) ? m : null;
+  };
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < source.length; ) {
+    const whole = !inString && at(wholeString, i);
+    const part = !whole && at(placeholder, i);
+    if (whole) {
+      out += JSON.stringify(lookup(whole[1], scope));
+      i += whole[0].length;
+    } else if (part) {
+      const value = lookup(part[1], scope);
+      out += inString ? JSON.stringify(asText(value)).slice(1, -1) : JSON.stringify(value);
+      i += part[0].length;
+    } else {
+      if (source[i] === "\\" && inString) out += source[i++];
+      else if (source[i] === '"') inString = !inString;
+      out += source[i++] ?? "";
+    }
+  }
+  return out;
+};
+
+// ---- script ----
+
+// Scripts run in a Worker started by a sandboxed iframe: the frame has an
+// opaque origin, so neither it nor the worker can open this app's storage, and
+// its Content-Security-Policy (inherited by the worker) blocks every network
+// request, nested frame and navigation. Removing the frame ends the worker,
+// which is how a script that runs too long is stopped.
+const WORKER_SOURCE = `
+for (const k of ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "indexedDB", "caches", "importScripts", "BroadcastChannel", "Worker", "WebTransport"]) {
+  try { Object.defineProperty(self, k, { value: undefined }); } catch {}
+}
+self.onmessage = async (e) => {
+  try {
+    const fn = new (Object.getPrototypeOf(async function () {}).constructor)("args", e.data.source);
+    const value = await fn(e.data.args);
+    self.postMessage({ ok: true, value: value === undefined ? null : JSON.parse(JSON.stringify(value)) });
+  } catch (err) {
+    self.postMessage({ ok: false, error: String(err && err.message || err) });
+  }
+};`;
+
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:; connect-src 'none'";
+
+// the frame relays one request to its worker and the reply back
+const SANDBOX_DOC = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">
+<script>
+const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: "text/javascript" })));
+worker.onmessage = (e) => parent.postMessage(e.data, "*");
+worker.onerror = (e) => {
+  e.preventDefault();
+  parent.postMessage({ ok: false, error: e.message || "Script failed" }, "*");
+};
+onmessage = (e) => e.source === parent && worker.postMessage(e.data);
+</script>`;
+
+export const runMockScript = (source: string, args: unknown, timeoutMs = MOCK_TIMEOUT_MS) =>
+  new Promise<unknown>((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("sandbox", "allow-scripts");
+    frame.style.display = "none";
+    frame.srcdoc = SANDBOX_DOC;
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener("message", onMessage);
+      frame.remove();
+    };
+    const timer = setTimeout(() => {
+      done();
+      reject(new Error(`Timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== frame.contentWindow || !e.data || typeof e.data !== "object") return;
+      done();
+      if (e.data.ok) resolve(e.data.value);
+      else reject(new Error(String(e.data.error)));
+    };
+    window.addEventListener("message", onMessage);
+    // the frame's origin is opaque, so it can only be addressed with "*"
+    frame.onload = () => frame.contentWindow?.postMessage({ source, args }, "*");
+    document.body.appendChild(frame);
+  });
+
+// ---- responses ----
+
+export const parseArguments = (raw: unknown) => {
+  if (raw && typeof raw === "object") return raw;
+  try {
+    return JSON.parse(typeof raw === "string" && raw.trim() ? raw : "{}");
+  } catch {
+    throw new Error("Arguments are not valid JSON");
+  }
+};
+
+export const mockResponse = async (mock: ToolMock, args: unknown) =>
+  mock.kind === "template" ? renderMockTemplate(mock.source, args) : asText(await runMockScript(mock.source, args));
+
+export type FillProblem = { callId: string; name: string; message: string };
+
+// A tool message for every assistant tool call that has no response yet.
+// Calls whose tool has no mock, or whose mock fails, are reported instead.
+// Scripts are slow, so the responses are merged into the conversation as it
+// is by then with insertToolResponses.
+export const fillToolResponses = async (messages: Message[], tools: Tool[]) => {
+  const answered = new Set(messages.filter((m) => m.role === "tool").map((m) => m.tool_call_id));
+  const responses: Message[] = [];
+  const problems: FillProblem[] = [];
+  for (const m of messages) {
+    if (m.role !== "assistant") continue;
+    for (const tc of m.tool_calls || []) {
+      if (!tc.id || answered.has(tc.id)) continue;
+      answered.add(tc.id);
+      const name = tc.function?.name || "";
+      const mock = getMock(tools.find((t) => t?.function?.name === name));
+      if (!mock) {
+        problems.push({ callId: tc.id, name, message: name ? "No mock defined for this tool" : "Call has no function name" });
+        continue;
+      }
+      try {
+        const content = await mockResponse(mock, parseArguments(tc.function?.arguments));
+        responses.push({ _id: uuidv4(), role: "tool", tool_call_id: tc.id, name, content });
+      } catch (e) {
+        problems.push({ callId: tc.id, name, message: (e as Error).message });
+      }
+    }
+  }
+  return { responses, problems };
+};
+
+// Puts each response right after its assistant turn and that turn's existing
+// responses. Responses whose call is gone or already answered are dropped.
+export const insertToolResponses = (messages: Message[], responses: Message[]) => {
+  const answered = new Set(messages.filter((m) => m.role === "tool").map((m) => m.tool_call_id));
+  const byCall = new Map(responses.filter((r) => !answered.has(r.tool_call_id)).map((r) => [r.tool_call_id, r]));
+  const out: Message[] = [];
+  let filled = 0;
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i];
+    out.push(m);
+    if (m.role !== "assistant" || !m.tool_calls?.length) continue;
+    while (messages[i + 1]?.role === "tool") out.push(messages[++i]);
+    for (const tc of m.tool_calls) {
+      const r = byCall.get(tc.id);
+      if (!r) continue;
+      out.push(r);
+      byCall.delete(tc.id);
+      filled++;
+    }
+  }
+  return { messages: out, filled };
+};
+
+export const countUnanswered = (messages: Message[]) => {
+  const answered = new Set(messages.filter((m) => m.role === "tool").map((m) => m.tool_call_id));
+  return messages.reduce((n, m) => n + (m.role === "assistant" ? (m.tool_calls || []).filter((tc) => tc.id && !answered.has(tc.id)).length : 0), 0);
+};
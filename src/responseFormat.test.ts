@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { emptyResponseFormat, validateAnswer } from "./responseFormat";
+
+describe("validateAnswer", () => {
+  const rf = emptyResponseFormat();
+  rf.json_schema.schema = { type: "object", properties: { total: { type: "number" } }, required: ["total"], additionalProperties: false };
+
+  it("accepts an answer matching the schema", () => {
+    expect(validateAnswer('{"total": 3}', rf)).toHaveLength(0);
+  });
+
+  it("flags a wrong type and an answer that isn't JSON", () => {
+    expect(validateAnswer('{"total": "3"}', rf)).toHaveLength(1);
+    expect(validateAnswer("total: 3", rf)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { emptyParameters, isObject, validateSchemaNode, validateValue } from "./toolSchema";
+import type { JsonSchema, SchemaIssue } from "./toolSchema";
+import { contentText } from "./contentParts";
+import type { Message } from "./messageFields";
+
+// -------------------- Structured output --------------------
+// A conversation can declare the JSON Schema its final answer must follow.
+// It is stored (as `responseFormat` on the conversation) exactly as the OpenAI
+// request field, so runs and exports send it unchanged:
+//
+//   { type: "json_schema", json_schema: { name, strict?, description?, schema } }
+//
+// The content of the last assistant message is checked against the schema.
+
+const NAME_RE = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export type ResponseFormat = { type: "json_schema"; json_schema: { name: string; strict?: boolean; description?: string; schema?: JsonSchema } };
+
+export const emptyResponseFormat = (name = "answer"): ResponseFormat => ({
+  type: "json_schema",
+  json_schema: { name, strict: true, schema: { ...emptyParameters(), additionalProperties: false } },
+});
+
+export const isResponseFormat = (v: unknown): v is ResponseFormat => isObject(v) && v.type === "json_schema" && isObject(v.json_schema);
+
+export const responseSchema = (rf: unknown) => (isResponseFormat(rf) ? rf.json_schema.schema ?? null : null);
+
+// Strict mode (OpenAI structured outputs) needs every property required and
+// no additional properties, on every object
+const checkStrict = (schema: unknown, path: string, out: SchemaIssue[]) => {
+  if (!isObject(schema)) return;
+  const props = isObject(schema.properties) ? schema.properties : null;
+  if (props) {
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    const optional = Object.keys(props).filter((k) => !required.includes(k));
+    if (optional.length) out.push({ path, message: `strict: every property must be required (${optional.join(", ")})` });
+    if (schema.additionalProperties !== false) out.push({ path, message: "strict: additionalProperties must be false" });
+    for (const [k, v] of Object.entries(props)) checkStrict(v, `${path}.${k}`, out);
+  }
+  if (schema.items) checkStrict(schema.items, `${path}[]`, out);
+};
+
+// Problems with the definition itself, in the same shape as tool issues
+export const checkResponseFormat = (rf: unknown): SchemaIssue[] => {
+  if (!isResponseFormat(rf)) return [{ path: "", message: `Expected {"type": "json_schema", "json_schema": {...}}` }];
+  const out: SchemaIssue[] = [];
+  const { name, schema } = rf.json_schema;
+  if (typeof name !== "string" || !NAME_RE.test(name)) out.push({ path: "json_schema.name", message: "Name must be 1-64 letters, digits, _ or -" });
+  if (!schema || typeof schema !== "object") out.push({ path: "json_schema.schema", message: "Schema is missing" });
+  else {
+    if (schema.type !== "object") out.push({ path: "json_schema.schema", message: `The root schema must have type "object"` });
+    validateSchemaNode(schema, "json_schema.schema", out);
+    if (rf.json_schema.strict) checkStrict(schema, "json_schema.schema", out);
+  }
+  return out;
+};
+
+// Index of the message holding the final answer: the last assistant message,
+// unless it only calls tools
+export const finalAnswerIndex = (messages: Message[]) => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== "assistant") continue;
+    return contentText(messages[i].content, true).trim() ? i : -1;
+  }
+  return -1;
+};
+
+export const validateAnswer = (content: unknown, rf: unknown): SchemaIssue[] => {
+  const schema = responseSchema(rf);
+  if (!schema) return [];
+  let value: unknown;
+  try {
+    value = JSON.parse(contentText(content, true));
+  } catch (e) {
+    return [{ path: "", message: `Content is not valid JSON (${(e as Error).message})` }];
+  }
+  return validateValue(schema, value);
+};
+
+// Issues of the final answer, or null when there is nothing to check
+export const checkFinalAnswer = (messages: Message[], rf: unknown): { index: number; issues: SchemaIssue[] } | null => {
+  const index = responseSchema(rf) ? finalAnswerIndex(messages) : -1;
+  return index < 0 ? null : { index, issues: validateAnswer(messages[index].content, rf) };
+};
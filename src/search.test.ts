@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest";
+import { snippet } from "./search";
+
+describe("snippet", () => {
+  it("cuts around the trimmed query", () => {
+    const text = `${"a".repeat(10)}hello${"b".repeat(10)}`;
+    expect(snippet(text, "  hello ", 10)).toBe(text);
+    expect(snippet(text, "hello", 5)).toBe("…aaaaahellobbbbb…");
+  });
+});
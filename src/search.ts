@@ -0,0 +1,98 @@
+import { contentText } from "./contentParts";
+import { getReasoning } from "./messageFields";
+import type { Message } from "./messageFields";
+import type { Conversation } from "./storage";
+
+// -------------------- Search, tags & folders --------------------
+// Tags (`tags: string[]`) and the folder path (`folder: "a/b"`, "" for the
+// top level) live on the conversation object. Folders have no record of their
+// own: a folder exists while some conversation is in it.
+
+export type RoleFilter = "" | "system" | "user" | "assistant" | "tool";
+export type SearchFilters = { query: string; role: RoleFilter; tag: string; toolCalls: boolean };
+export type SearchHit = { index: number; text: string }; // index -1: the name
+
+export const EMPTY_FILTERS: SearchFilters = { query: "", role: "", tag: "", toolCalls: false };
+
+export const isFiltering = (f: SearchFilters) => !!(f.query.trim() || f.role || f.tag || f.toolCalls);
+
+const textOf = (v: unknown) => (typeof v === "string" ? v : v == null ? "" : JSON.stringify(v));
+
+// Everything searchable in a message: content (tool responses included),
+// reasoning and tool-call names and arguments.
+export const messageSearchText = (m: Message) =>
+  [contentText(m.content), getReasoning(m), ...(m.tool_calls || []).map((tc) => `${tc.function?.name || ""} ${textOf(tc.function?.arguments)}`)].join("\n");
+
+export const matchesQuery = (m: Message, f: SearchFilters) => {
+  if (f.role && m.role !== f.role) return false;
+  const q = f.query.trim().toLowerCase();
+  return !q || messageSearchText(m).toLowerCase().includes(q);
+};
+
+// null when the conversation is filtered out; otherwise the matching spots
+export const searchConversation = (c: Conversation, f: SearchFilters): SearchHit[] | null => {
+  if (f.tag && !(c.tags || []).includes(f.tag)) return null;
+  const messages = c.messages || [];
+  if (f.toolCalls && !messages.some((m) => m.tool_calls?.length)) return null;
+  const q = f.query.trim().toLowerCase();
+  if (!q && !f.role) return [];
+  const hits: SearchHit[] = [];
+  if (q && !f.role && (c.name || "").toLowerCase().includes(q)) hits.push({ index: -1, text: c.name });
+  messages.forEach((m, index) => {
+    if (matchesQuery(m, f)) hits.push({ index, text: messageSearchText(m) });
+  });
+  return hits.length ? hits : null;
+};
+
+// A window of text around the first match
+export const snippet = (text: string, query: string, radius = 40) => {
+  const flat = text.replace(/\s+/g, " ");
+  const q = query.trim().toLowerCase();
+  const i = q ? flat.toLowerCase().indexOf(q) : -1;
+  if (i < 0) return flat.slice(0, radius * 2);
+  const start = Math.max(0, i - radius);
+  const end = i + q.length + radius;
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+};
+
+export const allTags = (conversations: Conversation[]) => [...new Set(conversations.flatMap((c) => c.tags || []))].sort();
+
+export const normalizeFolder = (path: string) =>
+  path
+    .split("/")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .join("/");
+
+export const allFolders = (conversations: Conversation[]) => {
+  const paths = new Set<string>();
+  for (const c of conversations) {
+    const parts = normalizeFolder(c.folder || "").split("/").filter(Boolean);
+    parts.forEach((_, i) => paths.add(parts.slice(0, i + 1).join("/")));
+  }
+  return [...paths].sort();
+};
+
+export type FolderNode = { name: string; path: string; folders: FolderNode[]; conversations: Conversation[] };
+
+export const buildFolderTree = (conversations: Conversation[]): FolderNode => {
+  const root: FolderNode = { name: "", path: "", folders: [], conversations: [] };
+  for (const c of conversations) {
+    let node = root;
+    for (const part of normalizeFolder(c.folder || "").split("/").filter(Boolean)) {
+      const path = node.path ? `${node.path}/${part}` : part;
+      let child = node.folders.find((f) => f.name === part);
+      if (!child) node.folders.push((child = { name: part, path, folders: [], conversations: [] }));
+      node = child;
+    }
+    node.conversations.push(c);
+  }
+  const sort = (n: FolderNode) => {
+    n.folders.sort((a, b) => a.name.localeCompare(b.name));
+    n.folders.forEach(sort);
+  };
+  sort(root);
+  return root;
+};
+
+export const countInFolder = (n: FolderNode): number => n.conversations.length + n.folders.reduce((a, f) => a + countInFolder(f), 0);
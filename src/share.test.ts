@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { decodeShare, encodeShare } from "./share";
+import type { Message } from "./messageFields";
+
+describe("share links", () => {
+  it("round trip the conversation without editor-only keys", async () => {
+    const messages: Message[] = [{ _id: "1", _branches: [], _branch: 0, role: "user", content: "hi", name: "alice" }];
+    const shared = await decodeShare(await encodeShare({ name: "n", tools: [], variables: { city: "Paris" }, messages }));
+    expect(shared.name).toBe("n");
+    expect(shared.variables).toEqual({ city: "Paris" });
+    expect(shared.messages[0]).toEqual({ role: "user", content: "hi", name: "alice" });
+  });
+});
@@ -0,0 +1,73 @@
+import { isResponseFormat } from "./responseFormat";
+import type { ResponseFormat } from "./responseFormat";
+import { stripScriptMocks } from "./mocks";
+import { isInternalKey } from "./messageFields";
+import type { Message } from "./messageFields";
+import { isObject } from "./toolSchema";
+import type { Tool } from "./toolSchema";
+import type { Bindings } from "./templates";
+
+// -------------------- Share links --------------------
+// A conversation (name, tools, variables, response format, messages) is
+// deflated and base64url-encoded into the URL fragment: `#share=1.<data>`.
+// Fragments never reach the server, so links work on the static site and stay
+// private to whoever holds them. The leading number is the payload version.
+// Script mocks are left out when encoding, and again when a link is saved.
+
+const SHARE_KEY = "share";
+const SHARE_VERSION = 1;
+
+// Chat apps, issue trackers and some browsers cut off longer links
+export const MAX_SHARE_URL_LENGTH = 16_000;
+
+export type SharedConversation = { name: string; tools: Tool[]; variables: Bindings; responseFormat?: ResponseFormat | null; messages: Message[] };
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (ch) => ch.charCodeAt(0));
+};
+
+// editor bookkeeping (ids, other branches) stays out of the link
+const sharedMessage = (m: Message) => Object.fromEntries(Object.entries(m).filter(([k]) => !isInternalKey(k)));
+
+export const encodeShare = async (c: SharedConversation) => {
+  const json = JSON.stringify({ name: c.name, tools: stripScriptMocks(c.tools), variables: c.variables, responseFormat: c.responseFormat ?? undefined, messages: c.messages.map(sharedMessage) });
+  return `${SHARE_VERSION}.${toBase64Url(await pipe(new TextEncoder().encode(json), new CompressionStream("deflate-raw")))}`;
+};
+
+export const decodeShare = async (encoded: string): Promise<SharedConversation> => {
+  const dot = encoded.indexOf(".");
+  const version = Number(encoded.slice(0, dot));
+  if (dot < 0 || !Number.isInteger(version)) throw new Error("The link is not a shared conversation");
+  if (version > SHARE_VERSION) throw new Error("The link was made by a newer version of the app");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(encoded.slice(dot + 1)), new DecompressionStream("deflate-raw"))));
+  } catch {
+    throw new Error("The link is damaged or incomplete (it may have been cut off when it was pasted)");
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.messages)) throw new Error("The link contains no conversation");
+  return {
+    name: typeof parsed.name === "string" ? parsed.name : "Shared conversation",
+    tools: Array.isArray(parsed.tools) ? parsed.tools : [],
+    variables: isObject(parsed.variables) ? (parsed.variables as Bindings) : {},
+    responseFormat: isResponseFormat(parsed.responseFormat) ? parsed.responseFormat : null,
+    messages: parsed.messages.filter(isObject) as Message[],
+  };
+};
+
+export const shareUrl = (encoded: string, base = `${location.origin}${location.pathname}${location.search}`) => `${base}#${SHARE_KEY}=${encoded}`;
+
+// the encoded payload in a location hash, or null
+export const readShareFragment = (hash: string) => new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_KEY);
+
+export const clearShareFragment = () => history.replaceState(null, "", `${location.pathname}${location.search}`);
@@ -0,0 +1,41 @@
+import { v4 as uuidv4 } from "uuid";
+import { nowIso, withIds } from "./utils";
+import type { EditorState } from "./history";
+
+// -------------------- Snapshots --------------------
+// Frozen copies of a conversation's editor state, stored on the conversation
+// itself (`snapshots`, oldest first). Named ones are kept until deleted;
+// automatic ones are taken while editing and only the latest few are kept.
+
+export type Snapshot = { id: string; name: string; createdAt: string; auto: boolean; state: EditorState };
+
+export const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+export const AUTO_SNAPSHOT_LIMIT = 20;
+
+export const makeSnapshot = (state: EditorState, name: string, auto = false): Snapshot => ({
+  id: uuidv4(),
+  name,
+  createdAt: nowIso(),
+  auto,
+  state: { ...state, messages: state.messages.map(({ _id, ...rest }) => rest) },
+});
+
+export const addSnapshot = (list: Snapshot[] = [], snap: Snapshot) => {
+  const next = [...list, snap];
+  const autos = next.filter((s) => s.auto);
+  if (autos.length <= AUTO_SNAPSHOT_LIMIT) return next;
+  const drop = new Set(autos.slice(0, autos.length - AUTO_SNAPSHOT_LIMIT).map((s) => s.id));
+  return next.filter((s) => !drop.has(s.id));
+};
+
+export const snapshotState = (snap: Snapshot): EditorState => ({ ...snap.state, messages: withIds(snap.state.messages) });
+
+// Compared to decide whether an automatic snapshot is worth taking
+export const stateFingerprint = (state: EditorState) =>
+  JSON.stringify([state.name, state.messages.map(({ _id, ...rest }) => rest), state.tools, state.variables, state.responseFormat ?? null]);
+
+export const shouldAutoSnapshot = (list: Snapshot[] = [], state: EditorState, now = Date.now()) => {
+  const last = list[list.length - 1];
+  if (!last) return true;
+  return now - new Date(last.createdAt).valueOf() >= AUTO_SNAPSHOT_INTERVAL_MS && stateFingerprint(snapshotState(last)) !== stateFingerprint(state);
+};
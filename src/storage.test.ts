@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { StorageError, createMemoryBackend, loadWorkspace } from "./storage";
+import type { Conversation } from "./storage";
+import { LS_KEY_LIST } from "./utils";
+
+// Loading, migration and quota handling against the in-memory backend, with a
+// fake localStorage holding what the previous version saved.
+
+const legacyStore = (items: Record<string, string>) => ({
+  getItem: (key: string) => (key in items ? items[key] : null),
+  removeItem: (key: string) => void delete items[key],
+});
+
+const conv: Conversation = { id: "s1", name: "saved", updatedAt: "2024-01-01T00:00:00.000Z", tools: [], messages: [{ role: "user", content: "hi" }] };
+
+describe("migration from cfb_v2:conversations", () => {
+  it("moves valid legacy conversations and removes the old key, once", async () => {
+    const items: Record<string, string> = { [LS_KEY_LIST]: JSON.stringify([conv, { name: "no id", messages: "oops" }, 7]) };
+    const backend = createMemoryBackend();
+    const loaded = await loadWorkspace(backend, legacyStore(items));
+    expect(loaded.migrated).toBe(2);
+    expect(items).not.toHaveProperty(LS_KEY_LIST);
+    expect(loaded.conversations.some((c) => c.id === "s1" && c.messages[0]._id)).toBe(true);
+    expect(await backend.loadAll()).toHaveLength(2);
+
+    const again = await loadWorkspace(backend, legacyStore(items));
+    expect(again.migrated).toBe(0);
+    expect(again.conversations).toHaveLength(2);
+  });
+});
+
+describe("loading", () => {
+  it("reports corrupt legacy data and keeps it for recovery", async () => {
+    const corrupt = { [LS_KEY_LIST]: "[{\"id\": \"s1\"," };
+    const err = await loadWorkspace(createMemoryBackend(), legacyStore(corrupt)).catch((e) => e);
+    expect(err).toBeInstanceOf(StorageError);
+    expect(err.kind).toBe("corrupt");
+    expect(err.raw).toBe(corrupt[LS_KEY_LIST]);
+    expect(corrupt).toHaveProperty(LS_KEY_LIST);
+  });
+
+  it("skips unreadable records instead of failing", async () => {
+    const mixed = await loadWorkspace(createMemoryBackend([conv, { id: "bad", messages: null }]), legacyStore({}));
+    expect(mixed.conversations).toHaveLength(1);
+    expect(mixed.skipped).toEqual([expect.objectContaining({ id: "bad" })]);
+  });
+
+  it("gives an empty workspace the example conversation", async () => {
+    const empty = await loadWorkspace(createMemoryBackend(), legacyStore({}));
+    expect(empty.conversations).toHaveLength(1);
+  });
+});
+
+describe("quota errors", () => {
+  const big: Conversation = { ...conv, id: "s2", messages: [{ role: "user", content: "x".repeat(100) }] };
+  const smallBackend = () => createMemoryBackend([conv], { quotaBytes: JSON.stringify(conv).length + 10 });
+
+  it("rejects a write over the quota without applying it", async () => {
+    const small = smallBackend();
+    const err = await small.put(big).catch((e) => e);
+    expect(err).toBeInstanceOf(StorageError);
+    expect(err.kind).toBe("quota");
+    expect(await small.loadAll()).toEqual([conv]);
+  });
+
+  it("keeps the legacy key when a migration hits the quota", async () => {
+    const small = smallBackend();
+    const legacy = { [LS_KEY_LIST]: JSON.stringify([big]) };
+    const err = await loadWorkspace(small, legacyStore(legacy)).catch((e) => e);
+    expect(err?.kind).toBe("quota");
+    expect(legacy).toHaveProperty(LS_KEY_LIST);
+    expect(await small.loadAll()).toHaveLength(1);
+  });
+});
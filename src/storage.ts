@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from "uuid";
+import { LS_KEY_LIST, LS_PREFIX, nowIso, withIds, makeExampleConversation } from "./utils";
+import type { Message } from "./messageFields";
+import { isObject } from "./toolSchema";
+import type { Tool } from "./toolSchema";
+import type { Bindings } from "./templates";
+import type { ResponseFormat } from "./responseFormat";
+import type { Snapshot } from "./snapshots";
+import type { Evals } from "./evals";
+
+// -------------------- Storage --------------------
+// Conversations are persisted one record per conversation behind a small
+// backend interface: IndexedDB in the browser, an in-memory map for the
+// self-tests (storage.selftest.ts) or when IndexedDB is unavailable.
+// Workspace settings stay in localStorage.
+
+export type Conversation = {
+  id: string;
+  name: string;
+  updatedAt: string;
+  tools: Tool[];
+  messages: Message[];
+  variables?: Bindings;
+  responseFormat?: ResponseFormat | null;
+  tags?: string[];
+  folder?: string;
+  snapshots?: Snapshot[];
+  evals?: Evals;
+  // bumped and stamped on every save (see sync.ts)
+  rev?: number;
+  savedBy?: string;
+};
+
+// Every record is stored under its `id`; the rest of it is only known to be a
+// conversation after isConversationRecord
+export type StoredRecord = { id: string; [key: string]: unknown };
+
+export interface StorageBackend {
+  kind: "indexeddb" | "memory";
+  loadAll(): Promise<StoredRecord[]>;
+  get(id: string): Promise<StoredRecord | undefined>;
+  put(conversation: Conversation): Promise<void>;
+  putMany(conversations: Conversation[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type StorageErrorKind = "quota" | "corrupt" | "unavailable" | "unknown";
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+  raw?: string;
+  constructor(kind: StorageErrorKind, message: string, raw?: string) {
+    super(message);
+    this.name = "StorageError";
+    this.kind = kind;
+    this.raw = raw;
+  }
+}
+
+export const toStorageError = (e: unknown) => {
+  if (e instanceof StorageError) return e;
+  const quota = e instanceof Error && e.name === "QuotaExceededError";
+  return new StorageError(quota ? "quota" : "unknown", quota ? "Browser storage is full" : (e instanceof Error && e.message) || String(e));
+};
+
+// ---- memory ----
+
+// quotaBytes simulates a full disk: writes that would exceed it are rejected
+export const createMemoryBackend = (initial: StoredRecord[] = [], { quotaBytes = Infinity } = {}): StorageBackend => {
+  const records = new Map<string, StoredRecord>(initial.map((c) => [c.id, structuredClone(c)]));
+  const size = (m: Map<string, StoredRecord>) => [...m.values()].reduce((n: number, c) => n + JSON.stringify(c).length, 0);
+  const write = async (list: Conversation[]) => {
+    const next = new Map(records);
+    for (const c of list) next.set(c.id, structuredClone(c));
+    if (size(next) > quotaBytes) throw new StorageError("quota", "Browser storage is full");
+    list.forEach((c) => records.set(c.id, next.get(c.id)!));
+  };
+  return {
+    kind: "memory",
+    loadAll: async () => [...records.values()].map((c) => structuredClone(c)),
+    get: async (id) => (records.has(id) ? structuredClone(records.get(id)) : undefined),
+    put: (c) => write([c]),
+    putMany: write,
+    remove: async (id) => void records.delete(id),
+    clear: async () => records.clear(),
+  };
+};
+
+// ---- IndexedDB ----
+
+export const DB_NAME = `${LS_PREFIX}:db`;
+const STORE = "conversations";
+
+export const createIndexedDBBackend = (dbName = DB_NAME): StorageBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () =>
+    (db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") return reject(new StorageError("unavailable", "IndexedDB is not available in this browser"));
+      const req = indexedDB.open(dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(new StorageError("unavailable", `Could not open the database: ${req.error?.message || "unknown error"}`));
+      req.onblocked = () => reject(new StorageError("unavailable", "The database is blocked by another tab running an older version"));
+    }));
+
+  // one transaction; resolves with the last request's result once committed
+  const run = async <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+    const conn = await open();
+    return new Promise<T>((resolve, reject) => {
+      let req: IDBRequest<T> | void;
+      const tx = conn.transaction(STORE, mode);
+      tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+      tx.onerror = () => reject(toStorageError(tx.error));
+      tx.onabort = () => reject(toStorageError(tx.error));
+      try {
+        req = fn(tx.objectStore(STORE));
+      } catch (e) {
+        tx.abort();
+        reject(toStorageError(e));
+      }
+    });
+  };
+
+  return {
+    kind: "indexeddb",
+    loadAll: () => run<StoredRecord[]>("readonly", (s) => s.getAll()),
+    get: (id) => run<StoredRecord | undefined>("readonly", (s) => s.get(id)),
+    put: (c) => run("readwrite", (s) => void s.put(c)),
+    putMany: (list) => run("readwrite", (s) => list.forEach((c) => s.put(c))),
+    remove: (id) => run("readwrite", (s) => void s.delete(id)),
+    clear: () => run("readwrite", (s) => void s.clear()),
+  };
+};
+
+// ---- loading & migration ----
+
+type LegacyStore = Pick<Storage, "getItem" | "removeItem">;
+
+export const isConversationRecord = (c: unknown): c is Conversation =>
+  isObject(c) && typeof c.id === "string" && Array.isArray(c.messages) && c.messages.every((m) => m && typeof m === "object");
+
+// Copy conversations from the old single localStorage key into the backend,
+// then drop the key. Corrupt data is left in place so it can be recovered.
+export const migrateLegacy = async (backend: StorageBackend, legacy: LegacyStore) => {
+  const raw = legacy.getItem(LS_KEY_LIST);
+  if (raw == null) return 0;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error("expected a list of conversations");
+  } catch (e) {
+    throw new StorageError("corrupt", `Conversations saved by the previous version could not be read (${(e as Error).message}).`, raw);
+  }
+  const records = parsed
+    .filter(isObject)
+    .map((c) => ({ ...c, id: typeof c.id === "string" ? c.id : uuidv4(), updatedAt: c.updatedAt || nowIso(), messages: Array.isArray(c.messages) ? c.messages : [] }) as Conversation);
+  await backend.putMany(records);
+  legacy.removeItem(LS_KEY_LIST);
+  return records.length;
+};
+
+export const discardLegacy = (legacy: LegacyStore) => legacy.removeItem(LS_KEY_LIST);
+
+export type LoadedWorkspace = { conversations: Conversation[]; skipped: StoredRecord[]; migrated: number };
+
+// Unreadable records are returned separately instead of failing the whole load.
+export const loadWorkspace = async (backend: StorageBackend, legacy: LegacyStore): Promise<LoadedWorkspace> => {
+  const migrated = await migrateLegacy(backend, legacy);
+  const records = await backend.loadAll();
+  const conversations = records.filter(isConversationRecord).map((c) => ({ ...c, messages: withIds(c.messages) }));
+  const skipped = records.filter((c) => !isConversationRecord(c));
+  if (!conversations.length) {
+    const example = makeExampleConversation();
+    await backend.put(example);
+    conversations.push(example);
+  }
+  return { conversations, skipped, migrated };
+};
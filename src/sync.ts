@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from "uuid";
+import { LS_PREFIX } from "./utils";
+import type { Conversation } from "./storage";
+
+// -------------------- Multi-tab sync --------------------
+// Tabs share one IndexedDB database. After writing a record a tab announces
+// it on a BroadcastChannel (or, where that is missing, through a localStorage
+// key whose `storage` event reaches the other tabs); receivers read the record
+// back from storage. Every write bumps the record's `rev` and stamps `savedBy`
+// so a tab can tell a newer version from a concurrent one.
+
+export const TAB_ID = uuidv4();
+const CHANNEL = `${LS_PREFIX}:sync`;
+
+export type SyncMessage = { type: "put" | "remove"; id: string; from: string };
+
+export const openSyncChannel = (onMessage: (msg: SyncMessage) => void) => {
+  const receive = (msg: SyncMessage | null) => msg && msg.from !== TAB_ID && onMessage(msg);
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL);
+    channel.onmessage = (e) => receive(e.data);
+    return { post: (msg: Omit<SyncMessage, "from">) => channel.postMessage({ ...msg, from: TAB_ID }), close: () => channel.close() };
+  }
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== CHANNEL || !e.newValue) return;
+    try {
+      receive(JSON.parse(e.newValue));
+    } catch {
+      // not one of ours
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    // the nonce makes repeated identical messages still fire a storage event
+    post: (msg: Omit<SyncMessage, "from">) => localStorage.setItem(CHANNEL, JSON.stringify({ ...msg, from: TAB_ID, nonce: uuidv4() })),
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+};
+
+// The parts of a conversation a user edits, for "did anything change" checks
+export const contentFingerprint = (c: Pick<Conversation, "name" | "messages" | "tools" | "variables" | "responseFormat">) =>
+  JSON.stringify([c.name, c.messages.map(({ _id, ...rest }) => rest), c.tools, c.variables || {}, c.responseFormat ?? null]);
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { checkBindings, findVariables, renderMessages } from "./templates";
+import { isJSONString } from "./utils";
+import type { Message } from "./messageFields";
+
+const template: Message[] = [
+  { role: "user", content: "Weather in {{city}}?" },
+  { role: "assistant", tool_calls: [{ id: "t", type: "function", function: { name: "f", arguments: "{\"q\": \"{{city}}\"}" } }] },
+];
+
+describe("templates", () => {
+  it("renders content and JSON-escaped arguments", () => {
+    const rendered = renderMessages(template, { city: 'Paris "Ville"' });
+    expect(rendered[0].content).toBe('Weather in Paris "Ville"?');
+    expect(isJSONString(rendered[1].tool_calls?.[0].function.arguments ?? "")).toBe(true);
+  });
+
+  it("reports an unbound variable as missing", () => {
+    expect(checkBindings(findVariables(template), { other: "x" }).missing[0]).toBe("city");
+  });
+});
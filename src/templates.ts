@@ -0,0 +1,110 @@
+import type { Message } from "./messageFields";
+
+// -------------------- Template variables --------------------
+// `{{name}}` placeholders in message content and tool-call arguments, filled
+// from a per-conversation bindings object at export/run time.
+
+export const VARIABLE_RE = /\{\{\s*([a-zA-Z_][\w.-]*)\s*\}\}/g;
+
+export type Bindings = Record<string, string>;
+export type VariableUse = { name: string; count: number; messages: number[] };
+
+const namesIn = (text: unknown): string[] =>
+  typeof text === "string" ? [...text.matchAll(VARIABLE_RE)].map((m) => m[1]) : Array.isArray(text) ? text.flatMap((p) => (p?.type === "text" ? namesIn(p.text) : [])) : [];
+
+// Variables used in the conversation, in order of first appearance.
+export const findVariables = (messages: Message[]): VariableUse[] => {
+  const uses = new Map<string, VariableUse>();
+  messages.forEach((m, i) => {
+    const names = [...namesIn(m.content), ...(m.tool_calls || []).flatMap((tc) => namesIn(tc.function?.arguments))];
+    for (const name of names) {
+      const u: VariableUse = uses.get(name) || { name, count: 0, messages: [] };
+      u.count++;
+      if (!u.messages.includes(i)) u.messages.push(i);
+      uses.set(name, u);
+    }
+  });
+  return [...uses.values()];
+};
+
+// Unbound placeholders are left untouched so they stay visible in the output.
+export const renderString = (text: string, bindings: Bindings, escape: (v: string) => string = (v) => v) =>
+  text.replace(VARIABLE_RE, (whole, name) => (Object.prototype.hasOwnProperty.call(bindings, name) ? escape(String(bindings[name])) : whole));
+
+// Values substituted into tool-call arguments are JSON-string escaped, so a
+// placeholder written inside a JSON string ("{{city}}") stays valid JSON.
+const jsonEscape = (v: string) => JSON.stringify(v).slice(1, -1);
+
+export const renderMessages = (messages: Message[], bindings: Bindings) =>
+  messages.map((m) => {
+    const out: Message = { ...m };
+    if (typeof m.content === "string") out.content = renderString(m.content, bindings);
+    else if (Array.isArray(m.content)) out.content = m.content.map((p) => (p?.type === "text" && typeof p.text === "string" ? { ...p, text: renderString(p.text, bindings) } : p));
+    if (Array.isArray(m.tool_calls)) {
+      out.tool_calls = m.tool_calls.map((tc) =>
+        typeof tc.function?.arguments === "string"
+          ? { ...tc, function: { ...tc.function, arguments: renderString(tc.function.arguments, bindings, jsonEscape) } }
+          : tc,
+      );
+    }
+    return out;
+  });
+
+export const checkBindings = (uses: VariableUse[], bindings: Bindings) => {
+  const used = new Set(uses.map((u) => u.name));
+  return {
+    missing: uses.filter((u) => !Object.prototype.hasOwnProperty.call(bindings, u.name)).map((u) => u.name),
+    unused: Object.keys(bindings).filter((k) => !used.has(k)),
+  };
+};
+
+// ---- batch tables ----
+
+// Minimal RFC 4180 CSV parser: quoted fields, doubled quotes, CRLF.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+};
+
+// Accepts a JSON array of objects or CSV with a header row.
+export const parseBindingsTable = (text: string): Bindings[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed) || parsed.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+      throw new Error("JSON bindings must be an array of objects");
+    }
+    return parsed.map((r) => Object.fromEntries(Object.entries(r).map(([k, v]) => [k, typeof v === "string" ? v : JSON.stringify(v)])));
+  }
+  const [header, ...rows] = parseCSV(trimmed);
+  if (!header) return [];
+  return rows.map((r) => Object.fromEntries(header.map((h, i) => [h.trim(), r[i] ?? ""])));
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import * as cl100k from "gpt-tokenizer/encoding/cl100k_base";
+import { countMessageTokens, plainTextCounter } from "./tokens";
+
+describe("plainTextCounter", () => {
+  it("counts special tokens in a message as text", () => {
+    const n = countMessageTokens(plainTextCounter(cl100k), { role: "user", content: "the end <|endoftext|>" });
+    expect(n).toBeGreaterThan(0);
+  });
+
+  it("falls back to an estimate when the tokenizer throws", () => {
+    const broken = { countTokens: (): number => { throw new Error("bad input"); } };
+    expect(plainTextCounter(broken)("abcdefgh")).toBe(2);
+  });
+});
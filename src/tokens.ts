@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from "react";
+import { contentText, isPartList } from "./contentParts";
+import type { MessageContent } from "./contentParts";
+import type { Message } from "./messageFields";
+import type { Tool } from "./toolSchema";
+
+// -------------------- Token counting --------------------
+// Offline BPE tokenizers from gpt-tokenizer, each loaded on first use so the
+// vocabularies stay out of the main bundle. Counts follow OpenAI's chat
+// accounting: every message costs a few template tokens on top of its text,
+// the reply is primed with a few more, and tool definitions are counted as
+// their JSON.
+
+export type TokenizerId = "o200k_base" | "cl100k_base" | "p50k_base" | "r50k_base";
+export type CountFn = (text: string) => number;
+
+export const TOKENIZERS: { id: TokenizerId; label: string }[] = [
+  { id: "o200k_base", label: "o200k (GPT-4o, o1, o3)" },
+  { id: "cl100k_base", label: "cl100k (GPT-4, GPT-3.5)" },
+  { id: "p50k_base", label: "p50k (Codex, text-davinci)" },
+  { id: "r50k_base", label: "r50k (GPT-3)" },
+];
+
+type Encoding = { countTokens: (text: string, options?: { disallowedSpecial?: Set<string> }) => number };
+
+const LOADERS: Record<TokenizerId, () => Promise<Encoding>> = {
+  o200k_base: () => import("gpt-tokenizer/encoding/o200k_base"),
+  cl100k_base: () => import("gpt-tokenizer/encoding/cl100k_base"),
+  p50k_base: () => import("gpt-tokenizer/encoding/p50k_base"),
+  r50k_base: () => import("gpt-tokenizer/encoding/r50k_base"),
+};
+
+// Roughly four characters per token in English text
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Special tokens such as "<|endoftext|>" in a message are plain characters to
+// the API, so they are counted as text (by default the tokenizer throws on
+// them). Anything else the tokenizer rejects gets the estimate.
+export const plainTextCounter = (encoding: Encoding): CountFn => {
+  const options = { disallowedSpecial: new Set<string>() };
+  return (text) => {
+    try {
+      return encoding.countTokens(text, options);
+    } catch {
+      return estimateTokens(text);
+    }
+  };
+};
+
+export const TOKENS_PER_MESSAGE = 3;
+export const TOKENS_PER_NAME = 1;
+export const REPLY_PRIMING_TOKENS = 3;
+
+// Images are estimated without decoding them: OpenAI's low-detail cost, or a
+// 1024×1024 image at high detail. Audio and files are not counted.
+export const IMAGE_TOKENS_LOW = 85;
+export const IMAGE_TOKENS_HIGH = 765;
+
+export const textOfContent = (content: unknown) => contentText(content, true);
+
+const imageTokens = (content: MessageContent | undefined) =>
+  isPartList(content) ? content.reduce((n, p) => n + (p?.type === "image_url" ? (p.image_url?.detail === "low" ? IMAGE_TOKENS_LOW : IMAGE_TOKENS_HIGH) : 0), 0) : 0;
+
+export const countMessageTokens = (count: CountFn, m: Message) => {
+  let n = TOKENS_PER_MESSAGE + count(m.role || "") + count(textOfContent(m.content)) + imageTokens(m.content);
+  if (m.name) n += TOKENS_PER_NAME + count(m.name);
+  for (const tc of m.tool_calls || []) n += count(tc.function?.name || "") + count(textOfContent(tc.function?.arguments));
+  if (m.tool_call_id) n += count(m.tool_call_id);
+  return n;
+};
+
+export type TokenBreakdown = { perMessage: number[]; messages: number; tools: number; overhead: number; total: number };
+
+export const countConversationTokens = (count: CountFn, messages: Message[], tools: Tool[] | null, perMessage = messages.map((m) => countMessageTokens(count, m))): TokenBreakdown => {
+  const toolTokens = tools?.length ? count(JSON.stringify(tools)) : 0;
+  const messageTokens = perMessage.reduce((a, b) => a + b, 0);
+  const overhead = messages.length * TOKENS_PER_MESSAGE + REPLY_PRIMING_TOKENS;
+  return { perMessage, messages: messageTokens - messages.length * TOKENS_PER_MESSAGE, tools: toolTokens, overhead, total: messageTokens + REPLY_PRIMING_TOKENS + toolTokens };
+};
+
+export const formatTokens = (n: number) => (n >= 10_000 ? `${(n / 1000).toFixed(n >= 100_000 ? 0 : 1)}k` : n.toLocaleString());
+
+// The selected tokenizer's counter, or null while it downloads or when the
+// download failed (`error`). Counts are cached per message object, so only
+// edited messages are re-tokenized.
+export function useTokenCounter(id: TokenizerId) {
+  const [loaded, setLoaded] = useState<{ id: TokenizerId; count: CountFn | null; error: string | null } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    (LOADERS[id] || LOADERS.o200k_base)().then(
+      (mod) => !cancelled && setLoaded({ id, count: plainTextCounter(mod), error: null }),
+      (e) => !cancelled && setLoaded({ id, count: null, error: `Could not load the tokenizer (${e?.message || e})` }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+  const current = loaded?.id === id ? loaded : null;
+  const count = current?.count ?? null;
+  const error = current?.error ?? null;
+  const countMessage = useMemo(() => {
+    if (!count) return null;
+    const cache = new WeakMap<object, number>();
+    return (m: Message) => {
+      let n = cache.get(m);
+      if (n === undefined) cache.set(m, (n = countMessageTokens(count, m)));
+      return n;
+    };
+  }, [count]);
+  return useMemo(() => ({ count, countMessage, error }), [count, countMessage, error]);
+}
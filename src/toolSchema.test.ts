@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseTools, validateToolCall, validateTools } from "./toolSchema";
+import { DEFAULT_TOOLS } from "./utils";
+
+const call = (name: string, args: unknown) => ({ id: "c", type: "function", function: { name, arguments: JSON.stringify(args) } });
+
+describe("tool definitions", () => {
+  it("yields null for malformed JSON", () => {
+    expect(parseTools("{").tools).toBeNull();
+  });
+
+  it("accepts the default tools", () => {
+    expect(validateTools(DEFAULT_TOOLS)[0]).toHaveLength(0);
+  });
+
+  it("flags an undeclared required property", () => {
+    const tool = { type: "function", function: { name: "f", parameters: { type: "object", properties: {}, required: ["x"] } } };
+    expect(validateTools([tool])[0]).toHaveLength(1);
+  });
+});
+
+describe("validateToolCall", () => {
+  it("passes a matching call", () => {
+    expect(validateToolCall(call("get_weather", { location: "Paris" }), DEFAULT_TOOLS)).toHaveLength(0);
+  });
+
+  it("flags an unknown function", () => {
+    expect(validateToolCall(call("get_wether", {}), DEFAULT_TOOLS)).toHaveLength(1);
+  });
+
+  it("flags a wrong type and an extra property", () => {
+    expect(validateToolCall(call("get_weather", { location: 1, unit: "C" }), DEFAULT_TOOLS)).toHaveLength(2);
+  });
+});
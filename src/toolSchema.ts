@@ -0,0 +1,185 @@
+import type { ToolCall } from "./messageFields";
+
+// -------------------- Tool definitions --------------------
+// Helpers for the conversation's `tools` array (OpenAI function-calling shape):
+// parsing the raw JSON kept in the editor and checking each definition's
+// JSON-Schema `parameters` for mistakes that providers would reject.
+
+export const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+
+const FUNCTION_NAME_RE = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export type SchemaIssue = { path: string; message: string };
+
+// The JSON Schema keywords the editor reads and writes; others pass through
+export type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+  [key: string]: unknown;
+};
+
+export type Tool = {
+  type: string;
+  function: { name: string; description?: string; parameters?: JsonSchema; strict?: boolean };
+  [key: string]: unknown;
+};
+
+export const isObject = (v: unknown): v is Record<string, unknown> => v !== null && typeof v === "object" && !Array.isArray(v);
+
+const isString = (v: unknown): v is string => typeof v === "string";
+
+export const parseTools = (text: string): { tools: Tool[] | null; error: string | null } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { tools: null, error: (e as Error).message || "Invalid JSON" };
+  }
+  if (!Array.isArray(parsed)) return { tools: null, error: "Tools must be a JSON array" };
+  return { tools: parsed, error: null };
+};
+
+export const emptyParameters = (): JsonSchema => ({ type: "object", properties: {}, required: [] });
+
+export const emptyTool = (name = ""): Tool => ({
+  type: "function",
+  function: { name, description: "", parameters: emptyParameters() },
+});
+
+const matchesType = (type: unknown, v: unknown) => {
+  if (type === "integer") return Number.isInteger(v);
+  if (type === "number") return typeof v === "number";
+  if (type === "null") return v === null;
+  if (type === "array") return Array.isArray(v);
+  if (type === "object") return isObject(v);
+  return typeof v === type;
+};
+
+// Walk a schema node and collect problems. Only the subset of JSON Schema the
+// editor understands is checked; unknown keywords are left alone.
+export const validateSchemaNode = (schema: unknown, path: string, out: SchemaIssue[]) => {
+  if (schema === true || schema === false) return;
+  if (!isObject(schema)) {
+    out.push({ path, message: "Schema must be an object" });
+    return;
+  }
+  const types: unknown[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  for (const t of types) {
+    if (typeof t !== "string" || !SCHEMA_TYPES.includes(t)) out.push({ path, message: `Unknown type "${t}"` });
+  }
+  if (schema.enum !== undefined) {
+    if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+      out.push({ path, message: "enum must be a non-empty array" });
+    } else if (types.length) {
+      const bad = schema.enum.filter((v) => !types.some((t) => matchesType(t, v)));
+      if (bad.length) out.push({ path, message: `enum values ${bad.map((v) => JSON.stringify(v)).join(", ")} do not match type ${types.join("|")}` });
+    }
+  }
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) {
+      out.push({ path, message: "properties must be an object" });
+    } else {
+      for (const [k, v] of Object.entries(schema.properties)) validateSchemaNode(v, `${path}.${k}`, out);
+    }
+  }
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || !schema.required.every(isString)) {
+      out.push({ path, message: "required must be an array of property names" });
+    } else {
+      const props = isObject(schema.properties) ? schema.properties : {};
+      for (const r of schema.required) {
+        if (!Object.hasOwn(props, r)) out.push({ path, message: `required property "${r}" is not declared in properties` });
+      }
+    }
+  }
+  if (schema.items !== undefined) validateSchemaNode(schema.items, `${path}[]`, out);
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties === "object") {
+    validateSchemaNode(schema.additionalProperties, `${path}.*`, out);
+  }
+};
+
+// Issues per tool index; tools without problems get an empty array.
+export const validateTools = (tools: unknown[]): SchemaIssue[][] => {
+  const names = tools.map((t) => (isObject(t) && isObject(t.function) ? t.function.name : undefined));
+  return tools.map((tool, i) => {
+    const out: SchemaIssue[] = [];
+    if (!isObject(tool)) {
+      out.push({ path: "", message: "Tool must be an object" });
+      return out;
+    }
+    if (tool.type !== "function") out.push({ path: "type", message: `type should be "function"` });
+    const fn = tool.function;
+    if (!isObject(fn)) {
+      out.push({ path: "function", message: "Missing function definition" });
+      return out;
+    }
+    if (!fn.name) out.push({ path: "function.name", message: "Name is required" });
+    else if (typeof fn.name !== "string" || !FUNCTION_NAME_RE.test(fn.name)) out.push({ path: "function.name", message: "Name may only contain letters, digits, _ and - (max 64)" });
+    else if (names.indexOf(fn.name) !== i) out.push({ path: "function.name", message: `Duplicate name "${fn.name}"` });
+    if (fn.parameters !== undefined) {
+      if (!isObject(fn.parameters) || fn.parameters.type !== "object") out.push({ path: "parameters", message: `parameters must have type "object"` });
+      validateSchemaNode(fn.parameters, "parameters", out);
+    }
+    return out;
+  });
+};
+
+const typeOf = (v: unknown) => (v === null ? "null" : Array.isArray(v) ? "array" : Number.isInteger(v) ? "integer" : typeof v);
+
+// Validate a value against a schema node. Extra object properties are reported
+// unless the schema explicitly allows them via `additionalProperties`.
+export const validateValue = (schema: unknown, value: unknown, path = "", out: SchemaIssue[] = []): SchemaIssue[] => {
+  if (schema === false) {
+    out.push({ path, message: "Value is not allowed here" });
+    return out;
+  }
+  if (!isObject(schema)) return out;
+  const types: unknown[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length && !types.some((t) => matchesType(t, value))) {
+    out.push({ path, message: `Expected ${types.join(" | ")}, got ${typeOf(value)}` });
+    return out;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    out.push({ path, message: `Must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}` });
+  }
+  if (isObject(value)) {
+    const props = isObject(schema.properties) ? schema.properties : {};
+    for (const r of Array.isArray(schema.required) ? schema.required.filter(isString) : []) {
+      if (!Object.hasOwn(value, r)) out.push({ path: path ? `${path}.${r}` : r, message: "Missing required property" });
+    }
+    for (const [k, v] of Object.entries(value)) {
+      const p = path ? `${path}.${k}` : k;
+      if (Object.hasOwn(props, k)) validateValue(props[k], v, p, out);
+      else if (isObject(schema.additionalProperties)) validateValue(schema.additionalProperties, v, p, out);
+      else if (schema.additionalProperties !== true) out.push({ path: p, message: "Unexpected property" });
+    }
+  }
+  if (Array.isArray(value) && isObject(schema.items)) {
+    value.forEach((v, i) => validateValue(schema.items, v, `${path}[${i}]`, out));
+  }
+  return out;
+};
+
+// Check one assistant tool call against the declared tools. Returns an empty
+// list when the call matches its function's parameters.
+export const validateToolCall = (tc: ToolCall, tools: Tool[]): SchemaIssue[] => {
+  const name = tc?.function?.name || "";
+  if (!name) return [{ path: "function.name", message: "Function name is empty" }];
+  const def = tools.find((t) => t?.function?.name === name);
+  if (!def) return [{ path: "function.name", message: `Unknown function "${name}"` }];
+  const raw = tc.function?.arguments;
+  let args: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      args = JSON.parse(raw || "{}");
+    } catch {
+      return []; // JSONField already reports malformed arguments
+    }
+  }
+  return validateValue(def.function.parameters || { type: "object", properties: {} }, args ?? {});
+};
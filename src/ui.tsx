@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Wand2 } from "lucide-react";
+import { isJSONString, prettify } from "./utils";
+
+// Auto-resize textarea hook
+function useAutosize(textareaRef: React.RefObject<HTMLTextAreaElement>, value: string | undefined) {
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.style.height = "auto";
+    el.style.overflow = "hidden";
+    el.style.height = el.scrollHeight + "px";
+  }, [textareaRef, value]);
+}
+
+export function Collapsible({ title, children, defaultOpen = true, previewText }: { title: string; children: React.ReactNode; defaultOpen?: boolean; previewText?: string; }) {
+  const [open, setOpen] = useState(defaultOpen);
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="flex w-full items-center justify-between px-3 py-2 text-left"
+      >
+        <span className="text-xs font-medium text-slate-700">{title}</span>
+        <span className="text-xs text-slate-500">{open ? "▲" : "▼"}</span>
+      </button>
+      {open ? (
+        <div className="border-t border-slate-100 p-3">{children}</div>
+      ) : previewText ? (
+        <div
+          className="border-t border-slate-100 p-3 text-xs text-slate-500 truncate cursor-pointer hover:bg-slate-50"
+          role="button"
+          tabIndex={0}
+          onClick={() => setOpen(true)}
+          onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && setOpen(true)}
+          title="Click to expand"
+        >
+          {previewText}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function Textarea({ value, onChange, placeholder, rows = 3 }: { value?: string; onChange: (v: string) => void; placeholder?: string; rows?: number; }) {
+  const ref = useRef<HTMLTextAreaElement | null>(null);
+  useAutosize(ref as React.RefObject<HTMLTextAreaElement>, value);
+  return (
+    <textarea
+      ref={ref}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      rows={rows}
+      className="w-full resize-none rounded-xl border border-slate-300 bg-white p-3 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-black"
+      style={{ overflow: "hidden" }}
+    />
+  );
+}
+
+export function SmallButton({ children, onClick, title }: { children: React.ReactNode; onClick?: () => void; title?: string; }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      className="inline-flex items-center gap-1 rounded-lg border border-slate-300 px-2 py-1 text-xs shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-black"
+    >
+      {children}
+    </button>
+  );
+}
+
+export function RoleBadge({ role }: { role: string }) {
+  const map: Record<string, string> = {
+    system: "bg-gray-800 text-white",
+    user: "bg-blue-600 text-white",
+    assistant: "bg-emerald-600 text-white",
+    tool: "bg-amber-600 text-white",
+  };
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${map[role] || "bg-slate-600 text-white"}`}>{role}</span>
+  );
+}
+
+export function JSONField({ label, value, onChange, placeholder }: { label: string; value: string; onChange: (v: string) => void; placeholder?: string; }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-slate-600">{label}</label>
+        <SmallButton onClick={() => onChange(prettify(value))} title="Prettify JSON">
+          <Wand2 size={14} /> Prettify
+        </SmallButton>
+      </div>
+      <Textarea value={value} onChange={onChange} placeholder={placeholder} rows={4} />
+      {!isJSONString(value || "") && <div className="text-xs text-red-600">Invalid JSON</div>}
+    </div>
+  );
+}
+
+export function Modal({ title, children, footer, onClose, wide = false }: { title: string; children: React.ReactNode; footer?: React.ReactNode; onClose: () => void; wide?: boolean; }) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div className={`flex max-h-[85vh] w-full ${wide ? "max-w-5xl" : "max-w-xl"} flex-col rounded-2xl bg-white shadow-xl`} onClick={(e) => e.stopPropagation()}>
+        <div className="border-b border-slate-100 px-4 py-3 text-sm font-semibold">{title}</div>
+        <div className="overflow-y-auto px-4 py-3 text-sm">{children}</div>
+        {footer && <div className="flex items-center justify-end gap-2 border-t border-slate-100 px-4 py-3">{footer}</div>}
+      </div>
+    </div>
+  );
+}
+
+// Case-insensitive matches of `query` wrapped in <mark>
+export function Highlight({ text, query }: { text: string; query: string }) {
+  const q = query.trim();
+  if (!q) return <>{text}</>;
+  const re = new RegExp(`(${q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
+  return (
+    <>
+      {text.split(re).map((part, i) => (i % 2 ? <mark key={i} className="rounded bg-yellow-200 px-0.5">{part}</mark> : part))}
+    </>
+  );
+}
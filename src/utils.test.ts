@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { buildExportedMessages, isJSONString } from "./utils";
+import type { Message } from "./messageFields";
+
+describe("isJSONString", () => {
+  it("accepts valid JSON and rejects malformed JSON", () => {
+    expect(isJSONString("{}")).toBe(true);
+    expect(isJSONString("{")).toBe(false);
+  });
+});
+
+describe("buildExportedMessages", () => {
+  it("stringifies tool-call arguments and keeps every message", () => {
+    const messages: Message[] = [
+      { role: "system", content: "sys" },
+      { role: "user", content: "u" },
+      // arguments held as an object rather than a JSON string
+      { role: "assistant", content: null, tool_calls: [{ id: "t123", type: "function", function: { name: "f", arguments: JSON.parse('{"a": 1}') } }] },
+      { role: "tool", tool_call_id: "t123", name: "f", content: "{\"ok\":true}" },
+    ];
+    const out = buildExportedMessages(messages);
+    expect(out).toHaveLength(messages.length);
+    expect(out[2].tool_calls?.[0].function.arguments).toBe("{\"a\":1}");
+    expect(out[3].tool_call_id).toBe("t123");
+  });
+
+  it("keeps extra fields and strips reasoning on request", () => {
+    const out = buildExportedMessages(
+      [{ _id: "x", role: "user", content: "u", name: "alice" }, { role: "assistant", content: "a", reasoning_content: "r" }],
+      { reasoning: false },
+    );
+    expect(out[0].name).toBe("alice");
+    expect(out[0]).not.toHaveProperty("_id");
+    expect(out[1]).not.toHaveProperty("reasoning_content");
+  });
+});
@@ -0,0 +1,155 @@
+import { v4 as uuidv4 } from "uuid";
+import { DEFAULT_ENDPOINT } from "./api";
+import type { EndpointSettings } from "./api";
+import { REASONING_KEY, extraFields, getReasoning, stripReasoning } from "./messageFields";
+import type { Message } from "./messageFields";
+import type { CompareColumn } from "./compare";
+import type { ExportFormat } from "./formats";
+import type { TokenizerId } from "./tokens";
+import type { Tool } from "./toolSchema";
+import type { Conversation } from "./storage";
+
+// -------------------- Utilities --------------------
+export const LS_PREFIX = "cfb_v2";
+export const LS_KEY_LIST = `${LS_PREFIX}:conversations`;
+export const LS_KEY_ACTIVE = `${LS_PREFIX}:active`;
+export const LS_KEY_SETTINGS = `${LS_PREFIX}:settings`;
+
+export const nowIso = () => new Date().toISOString();
+
+export const isJSONString = (str: string) => {
+  try {
+    JSON.parse(str);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const prettify = (str: string) => {
+  try {
+    const obj = typeof str === "string" ? JSON.parse(str) : str;
+    return JSON.stringify(obj, null, 2);
+  } catch {
+    return str;
+  }
+};
+
+export const download = (filename: string, text: string) => {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+};
+
+// Workspace-wide preferences (not tied to a conversation)
+export type Settings = {
+  blockExportOnLintErrors: boolean;
+  exportFormat: ExportFormat;
+  endpoint: EndpointSettings;
+  tokenizer: TokenizerId;
+  contextLimit: number;
+  chatTemplate: string;
+  customChatTemplate: string;
+  includeReasoning: boolean;
+  compareColumns: CompareColumn[];
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  blockExportOnLintErrors: false,
+  exportFormat: "openai-messages",
+  endpoint: DEFAULT_ENDPOINT,
+  tokenizer: "o200k_base",
+  contextLimit: 128000,
+  chatTemplate: "llama3",
+  customChatTemplate: "",
+  includeReasoning: true,
+  compareColumns: [],
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LS_KEY_SETTINGS) || "{}");
+    return { ...DEFAULT_SETTINGS, ...saved, endpoint: { ...DEFAULT_SETTINGS.endpoint, ...saved.endpoint } };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const DEFAULT_TOOLS: Tool[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_weather",
+      description: "Get weather by city name",
+      parameters: {
+        type: "object",
+        properties: { location: { type: "string" } },
+        required: ["location"],
+      },
+    },
+  },
+];
+
+export const DEFAULT_SYSTEM: Message = { role: "system", content: "You are a helpful assistant." };
+
+export const withIds = (msgs: Message[]) => msgs.map((m) => (m._id ? m : { ...m, _id: uuidv4() }));
+
+export const makeExampleConversation = (): Conversation => {
+  const toolId = uuidv4();
+  return {
+    id: uuidv4(),
+    name: "Weather example",
+    updatedAt: nowIso(),
+    tools: DEFAULT_TOOLS,
+    messages: withIds([
+      DEFAULT_SYSTEM,
+      { role: "user", content: "What's the weather in Dublin?" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: toolId,
+            type: "function",
+            function: { name: "get_weather", arguments: JSON.stringify({ location: "Dublin" }) },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: toolId, name: "get_weather", content: "{\"tempC\": 15, \"condition\": \"Cloudy\"}" },
+      { role: "assistant", content: "It's 15°C and cloudy in Dublin." },
+    ]),
+  };
+};
+
+// Build exported messages (also used by tests). Extra fields pass through
+// unchanged; reasoning is dropped when `reasoning` is false.
+export const buildExportedMessages = (messages: Message[], { reasoning = true }: { reasoning?: boolean } = {}) => {
+  const cleaned = messages.map((m) => {
+    const base: Message = { role: m.role };
+    if (m.content !== undefined) base.content = m.content;
+    if (getReasoning(m)) base[REASONING_KEY] = getReasoning(m);
+    if (m.role === "assistant" && Array.isArray(m.tool_calls) && m.tool_calls.length > 0) {
+      base.tool_calls = m.tool_calls.map((tc) => ({
+        id: tc.id || uuidv4(),
+        type: tc.type || "function",
+        function: {
+          name: tc.function?.name || "",
+          arguments:
+            typeof tc.function?.arguments === "string"
+              ? tc.function.arguments
+              : JSON.stringify(tc.function?.arguments ?? {}),
+        },
+      }));
+    }
+    if (m.role === "tool") {
+      base.tool_call_id = m.tool_call_id || "";
+      if (m.name) base.name = m.name;
+    }
+    Object.assign(base, extraFields(m));
+    return reasoning ? base : stripReasoning(base);
+  });
+  return cleaned;
+};